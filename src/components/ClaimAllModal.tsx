@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { useAtomValue } from 'jotai';
+import { ethers } from 'ethers';
+import { Alert, Box, Button, Chip, Dialog, DialogActions, DialogContent, DialogTitle, Link, List, ListItem, ListItemText, Skeleton, Typography } from '@mui/material';
+import RedeemIcon from '@mui/icons-material/Redeem';
+import { useContract } from '@/providers/ContractProvider';
+import { useEthersSigner } from '@/hooks/useEthersSigner';
+import useClaimAll from '@/hooks/useClaimAll';
+import { rewardTokenAtom } from '@/store/rewardToken';
+import { getExplorerTxUrl } from '@/constants/networks';
+import { ClaimItem, PairInfo } from '@/types';
+
+interface ClaimAllModalProps {
+  open: boolean;
+  onClose: (claimed: boolean) => void;
+  pairs: PairInfo[];
+}
+
+const STATUS_CHIPS: Record<ClaimItem['status'], { label: string; color: 'default' | 'info' | 'success' | 'error' | 'warning' }> = {
+  queued: { label: 'Queued', color: 'default' },
+  pending: { label: 'Pending', color: 'info' },
+  confirmed: { label: 'Claimed', color: 'success' },
+  failed: { label: 'Failed', color: 'error' },
+  cancelled: { label: 'Cancelled', color: 'warning' },
+  unknown: { label: 'Unknown', color: 'warning' },
+};
+
+const formatReward = (amount: bigint) => Number(ethers.formatEther(amount)).toFixed(4);
+
+const ClaimAllModal: React.FC<ClaimAllModalProps> = ({ open, onClose, pairs }) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const { contract, multicall } = useContract();
+  const signer = useEthersSigner();
+  const rewardToken = useAtomValue(rewardTokenAtom);
+  const { items, mode, isClaiming, totalAmount, claimedAmount, prepare, claimAll, retryFailed } = useClaimAll();
+
+  // Read earned() fresh on open so the summary matches what the claims will pay out
+  const loadClaimable = async () => {
+    if (!contract || !signer) return;
+    setIsLoading(true);
+    try {
+      const results = await multicall(pairs.map((pair) => ({ contract, method: 'earned', args: [signer.address, pair.lpToken] })));
+      await prepare(
+        pairs
+          .map((pair, i) => ({ lpToken: pair.lpToken, pairName: pair.pairName, amount: results[i].success ? (results[i].value as bigint) : 0n }))
+          .filter((item) => item.amount > 0n)
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadClaimable();
+  }, [open]);
+
+  const failedCount = items.filter((item) => item.status === 'failed' || item.status === 'cancelled').length;
+  const confirmedCount = items.filter((item) => item.status === 'confirmed').length;
+  const unknownCount = items.filter((item) => item.status === 'unknown').length;
+  const hasQueued = items.some((item) => item.status === 'queued');
+  const isDone = items.length > 0 && !hasQueued && !isClaiming;
+
+  const handleClose = () => {
+    if (isClaiming) return;
+    onClose(confirmedCount > 0);
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Claim All Rewards</DialogTitle>
+      <DialogContent>
+        {isLoading ? (
+          <Box sx={{ py: 2 }}>
+            <Skeleton variant="text" height={40} />
+            <Skeleton variant="text" height={40} />
+          </Box>
+        ) : items.length === 0 ? (
+          <Alert severity="info">No pairs have rewards to claim.</Alert>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+              <Typography variant="h6">
+                Total: {formatReward(totalAmount)} {rewardToken.symbol}
+              </Typography>
+              {mode && (
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  label={mode === 'batch' ? 'Single wallet request' : `${items.length} transaction${items.length > 1 ? 's' : ''}`}
+                />
+              )}
+            </Box>
+            <List dense>
+              {items.map((item) => {
+                const txUrl = item.transactionHash ? getExplorerTxUrl(item.transactionHash) : '';
+                return (
+                  <ListItem key={item.lpToken} divider secondaryAction={<Chip size="small" label={STATUS_CHIPS[item.status].label} color={STATUS_CHIPS[item.status].color} />}>
+                    <ListItemText
+                      primary={`${item.pairName} — ${formatReward(item.amount)} ${rewardToken.symbol}`}
+                      secondary={
+                        <>
+                          {item.error && (
+                            <Typography component="span" variant="caption" color="error.main" sx={{ mr: 1 }}>
+                              {item.error}
+                            </Typography>
+                          )}
+                          {txUrl && (
+                            <Link href={txUrl} target="_blank" rel="noopener noreferrer" variant="caption">
+                              View transaction
+                            </Link>
+                          )}
+                        </>
+                      }
+                    />
+                  </ListItem>
+                );
+              })}
+            </List>
+            {isDone && (
+              <Alert severity={failedCount === 0 && unknownCount === 0 ? 'success' : confirmedCount > 0 ? 'warning' : 'error'} sx={{ mt: 2 }}>
+                Claimed {formatReward(claimedAmount)} {rewardToken.symbol} from {confirmedCount} of {items.length} pairs
+                {failedCount > 0 && `; ${failedCount} did not go through`}
+                {unknownCount > 0 && `; ${unknownCount} still unconfirmed, check your wallet or the explorer`}.
+              </Alert>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={handleClose} disabled={isClaiming}>
+          Close
+        </Button>
+        {isDone && failedCount > 0 ? (
+          <Button onClick={retryFailed} variant="contained" color="warning">
+            Retry failed
+          </Button>
+        ) : (
+          <Button onClick={() => claimAll()} variant="contained" startIcon={<RedeemIcon />} disabled={!hasQueued || isClaiming || isLoading}>
+            {isClaiming ? 'Claiming...' : 'Claim all'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ClaimAllModal;
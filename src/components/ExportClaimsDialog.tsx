@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { useAtomValue } from 'jotai';
+import { Alert, Button, Dialog, DialogActions, DialogContent, DialogTitle, Stack, TextField, Typography } from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import { rewardTokenAtom } from '@/store/rewardToken';
+import { TARGET_CHAIN_ID } from '@/constants/networks';
+import { usePriceOracle } from '@/hooks/usePriceOracle';
+import { StakingActivity } from '@/types';
+import { buildClaimRecords, claimRecordsToCsv, defiLlamaPriceSource, downloadFile, HistoricalPriceSource, spotPriceSource } from '@/utils/claimsExport';
+
+interface ExportClaimsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  activities: StakingActivity[];
+  pairNames: Record<string, string>;
+  priceSource?: HistoricalPriceSource;
+}
+
+const ExportClaimsDialog: React.FC<ExportClaimsDialogProps> = ({ open, onClose, activities, pairNames, priceSource }) => {
+  const [fromDate, setFromDate] = useState<string>('');
+  const [toDate, setToDate] = useState<string>('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string>('');
+  const rewardToken = useAtomValue(rewardTokenAtom);
+  const oracle = usePriceOracle();
+  const source = priceSource ?? defiLlamaPriceSource(TARGET_CHAIN_ID) ?? spotPriceSource(oracle);
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    // Date inputs are local calendar days; the range covers the whole of both days
+    const from = fromDate ? Math.floor(new Date(`${fromDate}T00:00:00`).getTime() / 1000) : undefined;
+    const to = toDate ? Math.floor(new Date(`${toDate}T23:59:59`).getTime() / 1000) : undefined;
+    if (from !== undefined && to !== undefined && from > to) {
+      setError('Start date must be before end date');
+      return;
+    }
+
+    setIsExporting(true);
+    setError('');
+    try {
+      const records = await buildClaimRecords(activities, { from, to, pairNames, rewardToken, priceSource: source });
+      if (records.length === 0) {
+        setError('No claims in the selected range');
+        return;
+      }
+      const fileName = `reward-claims-${fromDate || 'start'}-to-${toDate || 'now'}.${format}`;
+      if (format === 'csv') {
+        downloadFile(fileName, claimRecordsToCsv(records), 'text/csv');
+      } else {
+        downloadFile(fileName, JSON.stringify(records, null, 2), 'application/json');
+      }
+      onClose();
+    } catch (err) {
+      setError('Failed to export claims. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Export Reward Claims</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+          <TextField label="From" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} InputLabelProps={{ shrink: true }} fullWidth />
+          <TextField label="To" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} InputLabelProps={{ shrink: true }} fullWidth />
+          <Typography variant="body2" color="text.secondary">
+            USD prices from {source.name}.
+          </Typography>
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={() => handleExport('csv')} disabled={isExporting} variant="contained" startIcon={<DownloadIcon />}>
+          CSV
+        </Button>
+        <Button onClick={() => handleExport('json')} disabled={isExporting} variant="outlined" startIcon={<DownloadIcon />}>
+          JSON
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ExportClaimsDialog;
@@ -0,0 +1,36 @@
+import { Box, Tooltip } from '@mui/material';
+import { ethers } from 'ethers';
+import { REWARDS_SYNC_INTERVAL_MS } from '@/hooks/useLiveRewards';
+
+interface LiveRewardsAmountProps {
+  amount: bigint;
+  decimals: number;
+  symbol: string;
+  drift?: number;
+  isDrifting?: boolean;
+  fractionDigits?: number;
+}
+
+const SYNC_DESCRIPTION = REWARDS_SYNC_INTERVAL_MS === null ? 'every block' : `every ${REWARDS_SYNC_INTERVAL_MS / 1000} seconds`;
+
+const LiveRewardsAmount: React.FC<LiveRewardsAmountProps> = ({ amount, decimals, symbol, drift = 0, isDrifting = false, fractionDigits = 4 }) => {
+  return (
+    <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.75, fontVariantNumeric: 'tabular-nums' }}>
+      {Number(ethers.formatUnits(amount, decimals)).toFixed(fractionDigits)} {symbol}
+      <Tooltip title={isDrifting ? `Live estimate was ${(drift * 100).toFixed(2)}% off the on-chain value at the last sync` : `Live estimate, re-synced with the chain ${SYNC_DESCRIPTION}`}>
+        <Box
+          component="span"
+          sx={{
+            width: 6,
+            height: 6,
+            borderRadius: '50%',
+            bgcolor: isDrifting ? 'warning.main' : 'success.light',
+            opacity: 0.8,
+          }}
+        />
+      </Tooltip>
+    </Box>
+  );
+};
+
+export default LiveRewardsAmount;
@@ -0,0 +1,57 @@
+import { useAtom } from 'jotai';
+import { ethers } from 'ethers';
+import { Alert, Box, Button, Dialog, DialogActions, DialogContent, DialogTitle, Typography } from '@mui/material';
+import { preflightAtom } from '@/store/preflight';
+import { TARGET_CHAIN } from '@/constants/networks';
+
+const PreflightDialog: React.FC = () => {
+  const [request, setRequest] = useAtom(preflightAtom);
+
+  const close = (confirmed: boolean) => {
+    request?.resolve(confirmed);
+    setRequest(null);
+  };
+
+  if (!request) return null;
+
+  const willRevert = request.revertReason !== undefined;
+
+  return (
+    <Dialog open onClose={() => close(false)} maxWidth="xs" fullWidth>
+      <DialogTitle>{request.label}</DialogTitle>
+      <DialogContent>
+        {willRevert ? (
+          <Alert severity="error">{request.revertReason}</Alert>
+        ) : (
+          <>
+            {request.warning && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {request.warning}
+              </Alert>
+            )}
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+              <Typography color="text.secondary">Estimated gas</Typography>
+              <Typography>{request.gasLimit !== undefined ? request.gasLimit.toLocaleString() : '—'}</Typography>
+            </Box>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Typography color="text.secondary">Max network fee</Typography>
+              <Typography>
+                {request.gasCost !== undefined ? `${Number(ethers.formatEther(request.gasCost)).toFixed(6)} ${TARGET_CHAIN.nativeCurrency.symbol}` : '—'}
+              </Typography>
+            </Box>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={() => close(false)}>{willRevert ? 'Close' : 'Cancel'}</Button>
+        {!willRevert && (
+          <Button onClick={() => close(true)} variant="contained">
+            Confirm in wallet
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PreflightDialog;
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { Box, Grid, MenuItem, Paper, Slider, Stack, TextField, Typography } from '@mui/material';
+import CalculateIcon from '@mui/icons-material/Calculate';
+import { PairInfo } from '@/types';
+import { simulateRewards } from '@/utils/apr';
+
+interface RewardsSimulatorProps {
+  pair: PairInfo;
+  walletBalance: number;
+  lpSymbol: string;
+  rewardSymbol: string;
+}
+
+const HORIZONS = [
+  { label: '1 day', hours: 24 },
+  { label: '1 week', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+  { label: '90 days', hours: 24 * 90 },
+  { label: '1 year', hours: 24 * 365 },
+];
+
+const RewardsSimulator: React.FC<RewardsSimulatorProps> = ({ pair, walletBalance, lpSymbol, rewardSymbol }) => {
+  const [amount, setAmount] = useState<string>(walletBalance.toString());
+  const [horizonHours, setHorizonHours] = useState<number>(24 * 30);
+  const [tvlGrowthPct, setTvlGrowthPct] = useState<number>(0);
+
+  useEffect(() => {
+    setAmount(walletBalance.toString());
+  }, [walletBalance]);
+
+  const result = simulateRewards({
+    pairHourlyRewards: pair.aprBreakdown.pairHourlyRewards,
+    tvl: pair.tvl,
+    currentStake: pair.myStake,
+    additionalStake: Math.max(Number(amount) || 0, 0),
+    tvlGrowthPct,
+    horizonHours,
+  });
+  const rewardPrice = pair.aprBreakdown.rewardPriceUsd;
+  const formatRewards = (value: number) =>
+    `${value.toLocaleString('en-US', { maximumFractionDigits: 4 })} ${rewardSymbol}` +
+    (rewardPrice !== null ? ` ($${(value * rewardPrice).toLocaleString('en-US', { maximumFractionDigits: 2 })})` : '');
+
+  const projections = [
+    { label: 'Per hour', value: result.hourly },
+    { label: 'Per day', value: result.daily },
+    { label: 'Per month', value: result.monthly },
+    { label: 'Per year', value: result.yearly },
+  ];
+
+  return (
+    <Paper variant="outlined" sx={{ p: 3, borderRadius: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+        <CalculateIcon sx={{ mr: 1, color: 'primary.main' }} />
+        <Typography variant="h6">Rewards Calculator</Typography>
+      </Box>
+
+      <Stack spacing={3}>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <TextField
+            label="Stake amount"
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            fullWidth
+            InputProps={{
+              endAdornment: <Typography sx={{ ml: 1 }}>{lpSymbol}</Typography>,
+              inputProps: { min: 0 },
+            }}
+          />
+          <TextField select label="Time horizon" value={horizonHours} onChange={(e) => setHorizonHours(Number(e.target.value))} sx={{ minWidth: 160 }}>
+            {HORIZONS.map((horizon) => (
+              <MenuItem key={horizon.hours} value={horizon.hours}>
+                {horizon.label}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+
+        <Box sx={{ px: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Pool TVL growth after you stake: {tvlGrowthPct}%
+          </Typography>
+          <Slider value={tvlGrowthPct} onChange={(_, value) => setTvlGrowthPct(value as number)} min={0} max={500} step={10} valueLabelDisplay="auto" valueLabelFormat={(value) => `${value}%`} />
+        </Box>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+          <Typography variant="body2">Pool share after staking: {(result.poolShare * 100).toFixed(4)}%</Typography>
+          <Typography variant="body2" color={tvlGrowthPct > 0 ? 'warning.main' : 'text.secondary'}>
+            After TVL growth: {(result.dilutedShare * 100).toFixed(4)}%
+          </Typography>
+        </Box>
+
+        <Grid container spacing={2}>
+          {projections.map((projection) => (
+            <Grid item xs={6} key={projection.label}>
+              <Typography variant="caption" color="text.secondary">
+                {projection.label}
+              </Typography>
+              <Typography variant="body1" sx={{ fontWeight: 500 }}>
+                {formatRewards(projection.value)}
+              </Typography>
+            </Grid>
+          ))}
+        </Grid>
+
+        <Box sx={{ textAlign: 'center' }}>
+          <Typography variant="caption" color="text.secondary">
+            Over {HORIZONS.find((horizon) => horizon.hours === horizonHours)?.label}
+          </Typography>
+          <Typography variant="h5" color="primary" sx={{ fontWeight: 600 }}>
+            {formatRewards(result.horizon)}
+          </Typography>
+        </Box>
+
+        <Typography variant="caption" color="text.secondary">
+          Assumes the current hourly rate and pair weight stay unchanged.
+        </Typography>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default RewardsSimulator;
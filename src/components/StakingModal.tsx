@@ -1,12 +1,11 @@
 import { useEthersSigner } from '@/hooks/useEthersSigner';
 import { useContract } from '@/providers/ContractProvider';
 import { refetchAtom } from '@/store/refetch';
-import { PairInfo, TokenInfo } from '@/types';
-import { Button, Paper } from '@mui/material';
+import { ApprovalMode, PairInfo, StakeApproval, TokenInfo } from '@/types';
+import { Button, Paper, ToggleButton, ToggleButtonGroup } from '@mui/material';
 import { Box, Typography, Slider, Stack, DialogContent, Tab, Divider } from '@mui/material';
 import { Dialog, Tabs, TextField } from '@mui/material';
-import { ethers } from 'ethers';
-import { useAtom } from 'jotai';
+import { useAtom, useAtomValue } from 'jotai';
 import { SetStateAction, useEffect, useState, useRef } from 'react';
 import AccountBalanceIcon from '@mui/icons-material/AccountBalance';
 import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
@@ -16,6 +15,11 @@ import UnstakeIcon from '@mui/icons-material/RemoveCircleOutline';
 import RewardsIcon from '@mui/icons-material/LocalAtm';
 import WalletIcon from '@mui/icons-material/AccountBalanceWallet';
 import IconButton from '@mui/material/IconButton';
+import RewardsSimulator from '@/components/RewardsSimulator';
+import { clampAmount, formatTokenAmount, isUnlimitedAllowance, isZeroAmount, parseTokenAmount, percentageOf, percentOf, toInputString, toTokenAmount, TokenAmount, zeroAmount } from '@/utils/tokenAmount';
+import { rewardTokenAtom } from '@/store/rewardToken';
+import LiveRewardsAmount from '@/components/LiveRewardsAmount';
+import useLiveRewards from '@/hooks/useLiveRewards';
 
 interface StakingModalProps {
   selectedPair: PairInfo | null;
@@ -24,13 +28,19 @@ interface StakingModalProps {
   initialTab?: number;
 }
 
+const APPROVAL_HINTS: Record<ApprovalMode, string> = {
+  permit: 'Sign a permit for exactly this amount, then confirm the permit and stake as one batched request. No approval is left on chain, and an unused signature expires after 20 minutes.',
+  exact: 'Approve only this amount; future stakes will need a new approval.',
+  unlimited: 'Approve once for all future stakes. You can revoke it at any time.',
+};
+
 const StakingModal: React.FC<StakingModalProps> = ({ selectedPair, isModalOpen, setIsModalOpen, initialTab = 0 }) => {
   const [tabValue, setTabValue] = useState(initialTab);
   const [stakePercent, setStakePercent] = useState<number>(100);
   const [unstakePercent, setUnstakePercent] = useState<number>(100);
   const [stakeAmount, setStakeAmount] = useState<string>('');
   const [unstakeAmount, setUnstakeAmount] = useState<string>('');
-  const [balance, setBalance] = useState<number>(0);
+  const [balance, setBalance] = useState<TokenAmount | null>(null);
   const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null);
   const [pendingRewardsInWei, setPendingRewardsInWei] = useState<bigint>(BigInt(0));
   const [userStakeInfo, setUserStakeInfo] = useState<{
@@ -38,28 +48,51 @@ const StakingModal: React.FC<StakingModalProps> = ({ selectedPair, isModalOpen,
     pendingRewards: bigint;
     lastRewardTime: bigint;
   } | null>(null);
+  const [approval, setApproval] = useState<StakeApproval | null>(null);
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>('exact');
   const [, setRefetch] = useAtom(refetchAtom);
-  const { stake, unstake, claimRewards, getTokenInfo, getERC20Balance, getPendingRewards, getUserStakeInfo } = useContract();
+  const rewardToken = useAtomValue(rewardTokenAtom);
+  const { stake, unstake, claimRewards, getTokenInfo, getERC20Balance, getPendingRewards, getUserStakeInfo, getStakeApproval } = useContract();
   const signer = useEthersSigner();
+  const { getRewards, drift, isDrifting } = useLiveRewards(
+    selectedPair && userStakeInfo
+      ? [
+          {
+            lpToken: selectedPair.lpToken,
+            stake: userStakeInfo.amount,
+            tvl: selectedPair.tvlWei,
+            pairHourlyRewards: selectedPair.pairHourlyRewardsWei,
+            pendingRewards: userStakeInfo.pendingRewards,
+            lastRewardTime: userStakeInfo.lastRewardTime,
+            earned: pendingRewardsInWei,
+          },
+        ]
+      : [],
+    signer?.address
+  );
 
   // Add flags to track user interaction source
   const isStakeSliderChange = useRef(false);
   const isUnstakeSliderChange = useRef(false);
 
+  const decimals = tokenInfo?.decimals ?? 18;
+  const staked = toTokenAmount(userStakeInfo?.amount ?? 0n, decimals);
+
   const handleStake = async () => {
-    if (!selectedPair) return;
-    const amount = stakeAmount || ((stakePercent * balance) / 100).toString();
-    if (Number(amount) === 0) return;
-    await stake(selectedPair.lpToken, amount);
+    if (!selectedPair || !balance) return;
+    const amount = parseTokenAmount(stakeAmount, decimals) ?? percentOf(balance, stakePercent);
+    if (isZeroAmount(amount)) return;
+    await stake(selectedPair.lpToken, amount, approvalMode);
     setIsModalOpen(false);
     setRefetch(true);
   };
 
   const handleUnstake = async () => {
     if (!selectedPair || !signer) return;
-    const stakedAmount = await getUserStakeInfo(signer.address, selectedPair.lpToken);
-    const amount = unstakeAmount || ((unstakePercent * Number(stakedAmount.amount)) / 100).toString();
-    if (Number(amount) === 0) return;
+    // Re-read the stake so a slider percentage applies to the current amount
+    const latestStake = toTokenAmount((await getUserStakeInfo(signer.address, selectedPair.lpToken)).amount, decimals);
+    const amount = clampAmount(parseTokenAmount(unstakeAmount, decimals) ?? percentOf(latestStake, unstakePercent), latestStake);
+    if (isZeroAmount(amount)) return;
     await unstake(selectedPair.lpToken, amount);
     setIsModalOpen(false);
     setRefetch(true);
@@ -74,20 +107,21 @@ const StakingModal: React.FC<StakingModalProps> = ({ selectedPair, isModalOpen,
 
   const handleStakeAmountChange = (value: string) => {
     isStakeSliderChange.current = false;
+    if (!balance) return;
     if (!value) {
       setStakeAmount('');
       setStakePercent(0);
       return;
     }
-    const numValue = Number(value);
-    if (isNaN(numValue) || numValue < 0) return;
-    if (numValue > balance) {
-      setStakeAmount(balance.toString());
+    const amount = parseTokenAmount(value, decimals);
+    if (!amount) return;
+    if (amount.value > balance.value) {
+      setStakeAmount(toInputString(balance));
       setStakePercent(100);
       return;
     }
     setStakeAmount(value);
-    setStakePercent((numValue * 100) / balance);
+    setStakePercent(percentageOf(amount, balance));
   };
 
   const handleUnstakeAmountChange = (value: string) => {
@@ -98,16 +132,15 @@ const StakingModal: React.FC<StakingModalProps> = ({ selectedPair, isModalOpen,
       setUnstakePercent(0);
       return;
     }
-    const numValue = Number(value);
-    if (isNaN(numValue) || numValue < 0) return;
-    const stakedAmount = Number(ethers.formatEther(userStakeInfo.amount));
-    if (numValue > stakedAmount) {
-      setUnstakeAmount(stakedAmount.toString());
+    const amount = parseTokenAmount(value, decimals);
+    if (!amount) return;
+    if (amount.value > staked.value) {
+      setUnstakeAmount(toInputString(staked));
       setUnstakePercent(100);
       return;
     }
     setUnstakeAmount(value);
-    setUnstakePercent((numValue * 100) / stakedAmount);
+    setUnstakePercent(percentageOf(amount, staked));
   };
 
   useEffect(() => {
@@ -117,25 +150,27 @@ const StakingModal: React.FC<StakingModalProps> = ({ selectedPair, isModalOpen,
       const tokenBalanceOfSigner = await getERC20Balance(signer.address, selectedPair.lpToken);
       const pendingRewardsInWei = await getPendingRewards(signer.address, selectedPair.lpToken);
       const userStakeInfo = await getUserStakeInfo(signer.address, selectedPair.lpToken);
+      const approval = await getStakeApproval(selectedPair.lpToken);
 
       setTokenInfo(tokenInfo);
-      setBalance(Number(ethers.formatUnits(tokenBalanceOfSigner, tokenInfo.decimals)));
+      setBalance(toTokenAmount(tokenBalanceOfSigner, tokenInfo.decimals));
       setPendingRewardsInWei(pendingRewardsInWei);
       setUserStakeInfo(userStakeInfo);
+      setApproval(approval);
+      setApprovalMode(approval.permitSupported && approval.batchSupported ? 'permit' : 'exact');
     }
     fetchData();
   }, [selectedPair, signer]);
 
   useEffect(() => {
     if (!balance || !isStakeSliderChange.current) return;
-    setStakeAmount(((stakePercent * balance) / 100).toString());
+    setStakeAmount(toInputString(percentOf(balance, stakePercent)));
   }, [stakePercent, balance]);
 
   useEffect(() => {
     if (!userStakeInfo || !isUnstakeSliderChange.current) return;
-    const stakedAmount = Number(ethers.formatEther(userStakeInfo.amount));
-    setUnstakeAmount(((unstakePercent * stakedAmount) / 100).toString());
-  }, [unstakePercent, userStakeInfo]);
+    setUnstakeAmount(toInputString(percentOf(toTokenAmount(userStakeInfo.amount, decimals), unstakePercent)));
+  }, [unstakePercent, userStakeInfo, decimals]);
 
   useEffect(() => {
     if (isModalOpen) {
@@ -145,6 +180,11 @@ const StakingModal: React.FC<StakingModalProps> = ({ selectedPair, isModalOpen,
 
   if (!selectedPair || !tokenInfo) return null;
 
+  // LPStaking cannot consume a permit itself, so the permit only saves a transaction when it is batched with the stake
+  const canPermit = !!approval?.permitSupported && !!approval?.batchSupported;
+  const amountToStake = parseTokenAmount(stakeAmount, decimals) ?? (balance ? percentOf(balance, stakePercent) : null);
+  const needsApproval = !!approval && amountToStake !== null && !isZeroAmount(amountToStake) && amountToStake.value > approval.allowance;
+
   return (
     <Dialog open={isModalOpen} onClose={() => setIsModalOpen(false)} maxWidth="md" fullWidth PaperProps={{ elevation: 0 }}>
       <DialogContent sx={{ p: 0 }}>
@@ -227,14 +267,34 @@ const StakingModal: React.FC<StakingModalProps> = ({ selectedPair, isModalOpen,
                 <Box sx={{ display: 'flex', alignItems: 'center' }}>
                   <WalletIcon sx={{ mr: 1, color: 'text.secondary' }} />
                   <Typography variant="body1" color="text.secondary">
-                    Balance: {balance.toFixed(4)} {tokenInfo?.symbol}
+                    Balance: {formatTokenAmount(balance ?? zeroAmount(decimals))} {tokenInfo?.symbol}
                   </Typography>
                 </Box>
               </Box>
+              {approval && (
+                <Box>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: needsApproval ? 1 : 0 }}>
+                    Current allowance:{' '}
+                    {isUnlimitedAllowance(approval.allowance) ? 'Unlimited' : `${formatTokenAmount(toTokenAmount(approval.allowance, decimals))} ${tokenInfo.symbol}`}
+                  </Typography>
+                  {needsApproval && (
+                    <>
+                      <ToggleButtonGroup exclusive size="small" value={approvalMode} onChange={(_, value: ApprovalMode | null) => value && setApprovalMode(value)}>
+                        {canPermit && <ToggleButton value="permit">Permit signature</ToggleButton>}
+                        <ToggleButton value="exact">Approve exact amount</ToggleButton>
+                        <ToggleButton value="unlimited">Approve unlimited</ToggleButton>
+                      </ToggleButtonGroup>
+                      <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+                        {APPROVAL_HINTS[approvalMode]}
+                      </Typography>
+                    </>
+                  )}
+                </Box>
+              )}
               <Button
                 variant="contained"
                 onClick={handleStake}
-                disabled={selectedPair?.weight === BigInt(0) || Number(stakeAmount) === 0}
+                disabled={selectedPair?.weight === BigInt(0) || isZeroAmount(parseTokenAmount(stakeAmount, decimals))}
                 fullWidth
                 size="large"
                 startIcon={<StakeIcon />}
@@ -248,6 +308,7 @@ const StakingModal: React.FC<StakingModalProps> = ({ selectedPair, isModalOpen,
               >
                 Stake Tokens
               </Button>
+              <RewardsSimulator pair={selectedPair} walletBalance={Number(toInputString(balance ?? zeroAmount(decimals)))} lpSymbol={tokenInfo.symbol} rewardSymbol={rewardToken.symbol} />
             </Stack>
           )}
 
@@ -299,14 +360,14 @@ const StakingModal: React.FC<StakingModalProps> = ({ selectedPair, isModalOpen,
                 <Box sx={{ display: 'flex', alignItems: 'center' }}>
                   <WalletIcon sx={{ mr: 1, color: 'text.secondary' }} />
                   <Typography variant="body1" color="text.secondary">
-                    Staked: {Number(ethers.formatEther(userStakeInfo?.amount || 0n)).toFixed(4)} {tokenInfo?.symbol}
+                    Staked: {formatTokenAmount(staked)} {tokenInfo?.symbol}
                   </Typography>
                 </Box>
               </Box>
               <Button
                 variant="contained"
                 onClick={handleUnstake}
-                disabled={Number(unstakeAmount) === 0}
+                disabled={isZeroAmount(parseTokenAmount(unstakeAmount, decimals))}
                 fullWidth
                 size="large"
                 startIcon={<UnstakeIcon />}
@@ -339,7 +400,14 @@ const StakingModal: React.FC<StakingModalProps> = ({ selectedPair, isModalOpen,
                   <Typography variant="h5">Available Rewards</Typography>
                 </Box>
                 <Typography variant="h3" color="primary" sx={{ fontWeight: 600 }}>
-                  {Number(ethers.formatEther(pendingRewardsInWei)).toFixed(4)} LIB
+                  <LiveRewardsAmount
+                    amount={getRewards(selectedPair.lpToken)}
+                    decimals={rewardToken.decimals || 18}
+                    symbol={rewardToken.symbol || 'LIB'}
+                    drift={drift[selectedPair.lpToken]}
+                    isDrifting={isDrifting(selectedPair.lpToken)}
+                    fractionDigits={6}
+                  />
                 </Typography>
               </Paper>
               <Button
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Badge, Box, Button, Chip, CircularProgress, Divider, Drawer, IconButton, Link, List, ListItem, ListItemText, Tooltip, Typography } from '@mui/material';
+import ReceiptLongIcon from '@mui/icons-material/ReceiptLong';
+import CloseIcon from '@mui/icons-material/Close';
+import useTransactions, { CONFIRMATION_TARGET } from '@/hooks/useTransactions';
+import { getExplorerTxUrl } from '@/constants/networks';
+import { truncateAddress } from '@/utils';
+import { TrackedTransaction } from '@/types';
+
+const STATUS_COLORS: Record<TrackedTransaction['status'], 'info' | 'success' | 'error'> = {
+  pending: 'info',
+  confirmed: 'success',
+  failed: 'error',
+};
+
+const TransactionDrawer: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const { transactions, pendingCount, clearFinished } = useTransactions();
+
+  return (
+    <>
+      <Tooltip title="Transactions">
+        <IconButton onClick={() => setOpen(true)} color="inherit">
+          <Badge badgeContent={pendingCount} color="primary">
+            {pendingCount > 0 ? <CircularProgress size={24} thickness={5} color="inherit" /> : <ReceiptLongIcon />}
+          </Badge>
+        </IconButton>
+      </Tooltip>
+      <Drawer anchor="right" open={open} onClose={() => setOpen(false)}>
+        <Box sx={{ width: { xs: 300, sm: 380 }, p: 2 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+            <Typography variant="h6">Transactions</Typography>
+            <IconButton onClick={() => setOpen(false)} size="small">
+              <CloseIcon />
+            </IconButton>
+          </Box>
+          <Divider />
+          {transactions.length === 0 ? (
+            <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+              No transactions yet
+            </Typography>
+          ) : (
+            <List dense>
+              {transactions.map((tx) => {
+                const txUrl = getExplorerTxUrl(tx.hash);
+                return (
+                  <ListItem key={tx.hash} divider alignItems="flex-start" secondaryAction={<Chip size="small" label={tx.status} color={STATUS_COLORS[tx.status]} />}>
+                    <ListItemText
+                      primary={tx.label}
+                      secondary={
+                        <>
+                          <Typography component="span" variant="caption" display="block">
+                            {new Date(tx.timestamp).toLocaleString()}
+                            {tx.status === 'confirmed' && ` · ${tx.confirmations >= CONFIRMATION_TARGET ? `${CONFIRMATION_TARGET}+` : tx.confirmations} confirmations`}
+                          </Typography>
+                          {tx.error && (
+                            <Typography component="span" variant="caption" color="error.main" display="block">
+                              {tx.error}
+                            </Typography>
+                          )}
+                          {txUrl ? (
+                            <Link href={txUrl} target="_blank" rel="noopener noreferrer" variant="caption">
+                              {truncateAddress(tx.hash)}
+                            </Link>
+                          ) : (
+                            <Typography component="span" variant="caption">
+                              {truncateAddress(tx.hash)}
+                            </Typography>
+                          )}
+                        </>
+                      }
+                    />
+                  </ListItem>
+                );
+              })}
+            </List>
+          )}
+          {transactions.some((tx) => tx.status !== 'pending') && (
+            <Button onClick={clearFinished} size="small" sx={{ mt: 1 }}>
+              Clear finished
+            </Button>
+          )}
+        </Box>
+      </Drawer>
+    </>
+  );
+};
+
+export default TransactionDrawer;
@@ -0,0 +1,29 @@
+// Indexes match the contract's ActionType enum
+export const ACTION_TYPE = ['SET_HOURLY_REWARD_RATE', 'UPDATE_PAIR_WEIGHTS', 'ADD_PAIR', 'REMOVE_PAIR', 'CHANGE_SIGNER', 'WITHDRAW_REWARDS'];
+
+export const ACTION_TYPES = {
+  SET_HOURLY_REWARD_RATE: 0,
+  UPDATE_PAIR_WEIGHTS: 1,
+  ADD_PAIR: 2,
+  REMOVE_PAIR: 3,
+  CHANGE_SIGNER: 4,
+  WITHDRAW_REWARDS: 5,
+} as const;
+
+// The ABI does not expose the expiry window, so it is configured here and must match the deployed contract
+export const ACTION_EXPIRY_SECONDS = Number(import.meta.env.VITE_ACTION_EXPIRY_SECONDS) || 7 * 24 * 60 * 60;
+
+// Signer-only staking contract writes; when acting for a Safe these are queued as Safe transactions
+export const MULTISIG_METHODS = [
+  'proposeSetHourlyRewardRate',
+  'proposeUpdatePairWeights',
+  'proposeAddPair',
+  'proposeRemovePair',
+  'proposeChangeSigner',
+  'proposeWithdrawRewards',
+  'approveAction',
+  'rejectAction',
+  'executeAction',
+  'handleExpiredAction',
+  'cleanupExpiredActions',
+];
@@ -1,5 +1,8 @@
 export const TARGET_CHAIN_ID = 80002;
 
+// Multicall3 is deployed at the same address on every chain that has it (not on a fresh Hardhat node)
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
 const CHAIN_CONFIGS = {
   31337: {
     chainId: `0x${(31337).toString(16)}`,
@@ -37,6 +40,36 @@ const CHAIN_CONFIGS = {
 
 export const TARGET_CHAIN = CHAIN_CONFIGS[TARGET_CHAIN_ID];
 
+const EXPLORER_URL = 'blockExplorerUrls' in TARGET_CHAIN ? TARGET_CHAIN.blockExplorerUrls[0].replace(/\/$/, '') : '';
+
+// Empty on chains without an explorer (local Hardhat), so callers can skip rendering the link
+export const getExplorerTxUrl = (hash: string) => (EXPLORER_URL ? `${EXPLORER_URL}/tx/${hash}` : '');
+export const getExplorerAddressUrl = (address: string) => (EXPLORER_URL ? `${EXPLORER_URL}/address/${address}` : '');
+
+// Uniswap V2 factories we recognise per chain, keyed by lowercase address, used to name a pair's platform
+const KNOWN_FACTORIES: Record<number, Record<string, string>> = {
+  137: {
+    '0x5757371414417b8c6caad45baef941abc7d3ab32': 'QuickSwap',
+    '0xc35dadb65012ec5796536bd9864ed8773abc74c4': 'SushiSwap',
+    '0x9e5a52f57b3038f1b8eee45f28b3c1967e22799c': 'Uniswap',
+  },
+};
+
+// Testnet and local factories depend on the deployment, so they come from VITE_KNOWN_FACTORIES as "0xFactory:Platform,..."
+const parseFactories = (setting: string): Record<string, string> =>
+  Object.fromEntries(
+    setting
+      .split(',')
+      .map((entry) => entry.split(':').map((part) => part.trim()))
+      .filter(([address, platform]) => /^0x[0-9a-fA-F]{40}$/.test(address) && !!platform)
+      .map(([address, platform]) => [address.toLowerCase(), platform])
+  );
+
+const TARGET_FACTORIES = { ...KNOWN_FACTORIES[TARGET_CHAIN_ID], ...parseFactories(import.meta.env.VITE_KNOWN_FACTORIES || '') };
+
+// Empty for factories not registered on the target chain; the admin then names the platform by hand
+export const getFactoryPlatform = (factory: string) => TARGET_FACTORIES[factory.toLowerCase()] ?? '';
+
 export const switchNetwork = async () => {
   if (!window.ethereum) return false;
 
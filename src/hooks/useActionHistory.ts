@@ -0,0 +1,153 @@
+import { useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import { useContract } from '@/providers/ContractProvider';
+import { useReadOnlyProvider } from '@/hooks/useReadOnlyProvider';
+import { TARGET_CHAIN_ID } from '@/constants/networks';
+import { Action } from '@/types';
+import { deleteCache, readCache, writeCache } from '@/utils/indexedDb';
+import { getStartBlock, IndexedLog, queryLogsPaginated } from '@/utils/eventIndexer';
+import { ContractCall, executeCalls } from '@/utils/multicall';
+
+const ACTION_EVENTS = ['ActionProposed', 'ActionApproved', 'ActionRejected', 'ActionExecuted', 'ActionExpired'];
+const CALLS_PER_ACTION = 4;
+
+interface ActionHistoryCache {
+  lastIndexedBlock: number;
+  actions: Action[];
+  names: Record<string, string>;
+}
+
+const emptyCache = (startBlock: number): ActionHistoryCache => ({ lastIndexedBlock: startBlock - 1, actions: [], names: {} });
+
+/**
+ * Proposal history rebuilt from the multisig events and cached in IndexedDB. Each sync only scans
+ * blocks after the last indexed one and re-reads the actions those events touched.
+ */
+const useActionHistory = () => {
+  const { contract } = useContract();
+  const readProvider = useReadOnlyProvider();
+  const [actions, setActions] = useState<Action[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [lastIndexedBlock, setLastIndexedBlock] = useState<number | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const cacheRef = useRef<ActionHistoryCache | null>(null);
+  const syncingRef = useRef(false);
+
+  const publish = (cache: ActionHistoryCache) => {
+    cacheRef.current = cache;
+    setActions([...cache.actions].sort((a, b) => b.id - a.id));
+    setNames(cache.names);
+    setLastIndexedBlock(cache.lastIndexedBlock);
+  };
+
+  const fetchActions = async (stakingContract: ethers.Contract, ids: number[], previous: Map<number, Action>, logs: IndexedLog[]) => {
+    const calls = ids.flatMap((id): ContractCall[] => [
+      { contract: stakingContract, method: 'actions', args: [id] },
+      { contract: stakingContract, method: 'getActionPairs', args: [id] },
+      { contract: stakingContract, method: 'getActionWeights', args: [id] },
+      { contract: stakingContract, method: 'getActionApproval', args: [id] },
+    ]);
+    const results = await executeCalls(readProvider, calls);
+
+    return ids.flatMap((id, i): Action[] => {
+      const [raw, pairs, weights, approvedBy] = results.slice(i * CALLS_PER_ACTION, (i + 1) * CALLS_PER_ACTION);
+      if (!raw.success) return [];
+      const proposal = raw.value as ethers.Result;
+      const prior = previous.get(id);
+      const proposed = logs.find((log) => log.eventName === 'ActionProposed' && Number(log.args.actionId) === id);
+      const rejectedBy = new Set(prior?.rejectedBy ?? []);
+      logs.filter((log) => log.eventName === 'ActionRejected' && Number(log.args.actionId) === id).forEach((log) => rejectedBy.add(log.args.rejecter));
+
+      // Results are copied into plain arrays so the record can be structured-cloned into IndexedDB
+      return [
+        {
+          id,
+          actionType: Number(proposal.actionType),
+          newHourlyRewardRate: proposal.newHourlyRewardRate,
+          pairs: pairs.success ? Array.from(pairs.value as string[]) : [],
+          weights: weights.success ? Array.from(weights.value as bigint[], (weight) => BigInt(weight)) : [],
+          pairToAdd: proposal.pairToAdd,
+          pairNameToAdd: proposal.pairNameToAdd,
+          platformToAdd: proposal.platformToAdd,
+          weightToAdd: proposal.weightToAdd,
+          pairToRemove: proposal.pairToRemove,
+          recipient: proposal.recipient,
+          withdrawAmount: proposal.withdrawAmount,
+          executed: proposal.executed,
+          expired: proposal.expired,
+          approvals: Number(proposal.approvals),
+          approvedBy: approvedBy.success ? Array.from(approvedBy.value as string[]) : [],
+          proposedTime: Number(proposal.proposedTime),
+          rejected: proposal.rejected,
+          proposer: proposed?.args.proposer ?? prior?.proposer ?? '',
+          rejectedBy: Array.from(rejectedBy),
+        },
+      ];
+    });
+  };
+
+  const fetchPairNames = async (stakingContract: ethers.Contract, addresses: string[]) => {
+    const results = await executeCalls(readProvider, addresses.map((address) => ({ contract: stakingContract, method: 'pairs', args: [address] })));
+    return Object.fromEntries(addresses.map((address, i) => [address, results[i].success ? (results[i].value as ethers.Result).pairName : '']));
+  };
+
+  // Re-reads the actions touched by one window of logs and advances the cache to the window's end
+  const applyLogs = async (stakingContract: ethers.Contract, cache: ActionHistoryCache, logs: IndexedLog[], indexedBlock: number): Promise<ActionHistoryCache> => {
+    if (logs.length === 0) return { ...cache, lastIndexedBlock: indexedBlock };
+    const touchedIds = Array.from(new Set(logs.map((log) => Number(log.args.actionId))));
+    const previous = new Map(cache.actions.map((action) => [action.id, action]));
+    const updated = await fetchActions(stakingContract, touchedIds, previous, logs);
+    updated.forEach((action) => previous.set(action.id, action));
+
+    const missingNames = new Set<string>();
+    updated.forEach((action) => {
+      [...action.pairs, action.pairToRemove].forEach((pair) => {
+        if (pair !== ethers.ZeroAddress && !(pair in cache.names)) missingNames.add(pair);
+      });
+    });
+    const names = missingNames.size > 0 ? { ...cache.names, ...(await fetchPairNames(stakingContract, Array.from(missingNames))) } : cache.names;
+
+    return { lastIndexedBlock: indexedBlock, actions: Array.from(previous.values()), names };
+  };
+
+  const sync = async (rebuild = false) => {
+    if (!contract || syncingRef.current) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const stakingContract = contract.connect(readProvider) as ethers.Contract;
+      const address = await contract.getAddress();
+      const cacheKey = `actions:${TARGET_CHAIN_ID}:${address.toLowerCase()}`;
+      if (rebuild) {
+        await deleteCache(cacheKey);
+        cacheRef.current = null;
+      }
+      if (!cacheRef.current) {
+        publish((await readCache<ActionHistoryCache>(cacheKey)) ?? emptyCache(await getStartBlock(readProvider, address)));
+      }
+      const cache = cacheRef.current ?? emptyCache(0);
+
+      const head = await readProvider.getBlockNumber();
+      if (head <= cache.lastIndexedBlock) return;
+      // Each window is saved as it arrives, so a closed tab or a failing RPC only loses the window in flight
+      await queryLogsPaginated(stakingContract, ACTION_EVENTS, {
+        fromBlock: cache.lastIndexedBlock + 1,
+        toBlock: head,
+        onPage: async (logs, indexedBlock) => {
+          const next = await applyLogs(stakingContract, cacheRef.current ?? cache, logs, indexedBlock);
+          await writeCache(cacheKey, next);
+          publish(next);
+        },
+      });
+    } catch (err) {
+      console.error('Failed to sync proposal history:', err);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  };
+
+  return { actions, names, lastIndexedBlock, isSyncing, sync, rebuild: () => sync(true) };
+};
+
+export default useActionHistory;
@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from 'react';
+import { useContract } from '@/providers/ContractProvider';
+import { useEthersSigner } from '@/hooks/useEthersSigner';
+import useTransactions from '@/hooks/useTransactions';
+import { ClaimItem } from '@/types';
+import { decodeContractError } from '@/utils/errors';
+import { sendCalls, supportsBatchedCalls, waitForCalls } from '@/utils/walletCalls';
+
+type ClaimMode = 'batch' | 'sequential';
+
+const CLAIM_FAILED = 'Failed to claim rewards';
+const CLAIM_UNKNOWN = 'The wallet did not report a result; check your wallet or the explorer';
+
+/**
+ * Claims rewards from several pairs, through one EIP-5792 batch when the wallet supports it and
+ * otherwise as one transaction per pair. Each item carries its own status so partial failures stay visible.
+ */
+const useClaimAll = () => {
+  const { contract } = useContract();
+  const signer = useEthersSigner();
+  const { trackTransaction } = useTransactions();
+  const [items, setItems] = useState<ClaimItem[]>([]);
+  const [mode, setMode] = useState<ClaimMode | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  // Stops polling the wallet for batch status once the modal is gone
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateItem = (lpToken: string, update: Partial<ClaimItem>) => {
+    setItems((current) => current.map((item) => (item.lpToken === lpToken ? { ...item, ...update } : item)));
+  };
+
+  const prepare = async (targets: Omit<ClaimItem, 'status'>[]) => {
+    setItems(targets.map((target) => ({ ...target, status: 'queued' })));
+    if (!signer) return;
+    const { chainId } = await signer.provider.getNetwork();
+    setMode((await supportsBatchedCalls(signer, Number(chainId))) ? 'batch' : 'sequential');
+  };
+
+  /**
+   * Simulates every claim before the wallet is prompted and marks the ones that would revert as failed.
+   * Returns the items still worth sending; a simulation that cannot run at all (e.g. RPC down) does not block the claim.
+   */
+  const simulateClaims = async (queue: ClaimItem[]) => {
+    if (!contract) return [];
+    const reverts = await Promise.all(
+      queue.map(async (item) => {
+        try {
+          await contract.claimRewards.staticCall(item.lpToken);
+          return null;
+        } catch (err) {
+          const decoded = decodeContractError(err, CLAIM_FAILED);
+          return decoded.kind === 'contract' || decoded.kind === 'insufficient-funds' ? decoded.message : null;
+        }
+      })
+    );
+    queue.forEach((item, i) => {
+      const revertReason = reverts[i];
+      if (revertReason !== null) updateItem(item.lpToken, { status: 'failed', error: revertReason });
+    });
+    return queue.filter((_, i) => reverts[i] === null);
+  };
+
+  const claimSequentially = async (queue: ClaimItem[]) => {
+    if (!contract) return;
+    for (let i = 0; i < queue.length; i++) {
+      const { lpToken } = queue[i];
+      try {
+        updateItem(lpToken, { status: 'pending', error: undefined });
+        const tx = await contract.claimRewards(lpToken);
+        updateItem(lpToken, { transactionHash: tx.hash });
+        await trackTransaction(`Claim rewards from ${queue[i].pairName}`, tx);
+        updateItem(lpToken, { status: 'confirmed' });
+      } catch (err) {
+        const decoded = decodeContractError(err, CLAIM_FAILED);
+        updateItem(lpToken, { status: 'failed', error: decoded.message });
+        // A rejected prompt means the user wants to stop, not to be asked for the next pair
+        if (decoded.kind === 'user-rejected') {
+          queue.slice(i + 1).forEach((item) => updateItem(item.lpToken, { status: 'cancelled' }));
+          return;
+        }
+      }
+    }
+  };
+
+  const claimInBatch = async (queue: ClaimItem[]) => {
+    if (!contract || !signer) return;
+    const { chainId } = await signer.provider.getNetwork();
+    const to = await contract.getAddress();
+    const calls = queue.map((item) => ({ to, data: contract.interface.encodeFunctionData('claimRewards', [item.lpToken]) }));
+
+    let batchId: string;
+    try {
+      queue.forEach((item) => updateItem(item.lpToken, { status: 'pending', error: undefined }));
+      batchId = await sendCalls(signer, Number(chainId), calls);
+    } catch (err) {
+      const decoded = decodeContractError(err, CLAIM_FAILED);
+      if (decoded.kind === 'user-rejected') {
+        queue.forEach((item) => updateItem(item.lpToken, { status: 'cancelled', error: decoded.message }));
+        return;
+      }
+      // The wallet advertised batching but refused the request, so fall back to one transaction per pair
+      setMode('sequential');
+      await claimSequentially(queue);
+      return;
+    }
+
+    abortRef.current = new AbortController();
+    const status = await waitForCalls(signer, batchId, { signal: abortRef.current.signal });
+    if (status.timedOut) {
+      queue.forEach((item) => updateItem(item.lpToken, { status: 'unknown', error: CLAIM_UNKNOWN }));
+      return;
+    }
+    // Non-atomic batches return one receipt per call; atomic ones share a single receipt
+    queue.forEach((item, i) => {
+      const receipt = status.receipts.length === queue.length ? status.receipts[i] : status.receipts[0];
+      const success = receipt ? receipt.success : status.success;
+      updateItem(item.lpToken, {
+        status: success ? 'confirmed' : 'failed',
+        transactionHash: receipt?.transactionHash,
+        error: success ? undefined : 'Claim reverted',
+      });
+    });
+  };
+
+  const claimAll = async (onlyFailed = false) => {
+    const queue = items.filter((item) => (onlyFailed ? item.status === 'failed' || item.status === 'cancelled' : item.status === 'queued'));
+    if (queue.length === 0) return;
+    setIsClaiming(true);
+    try {
+      const claimable = await simulateClaims(queue);
+      if (claimable.length === 0) return;
+      if (mode === 'batch') {
+        await claimInBatch(claimable);
+      } else {
+        await claimSequentially(claimable);
+      }
+    } catch (err) {
+      queue.forEach((item) => updateItem(item.lpToken, { status: 'failed', error: decodeContractError(err, CLAIM_FAILED).message }));
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const totalAmount = items.reduce((sum, item) => sum + item.amount, 0n);
+  const claimedAmount = items.filter((item) => item.status === 'confirmed').reduce((sum, item) => sum + item.amount, 0n);
+
+  return {
+    items,
+    mode,
+    isClaiming,
+    totalAmount,
+    claimedAmount,
+    prepare,
+    claimAll,
+    retryFailed: () => claimAll(true),
+  };
+};
+
+export default useClaimAll;
@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import { useContract } from '@/providers/ContractProvider';
+import { useReadOnlyProvider } from '@/hooks/useReadOnlyProvider';
+import { executeCalls } from '@/utils/multicall';
+
+const MIN_SYNC_INTERVAL_MS = 1000;
+
+/**
+ * 'block' re-syncs with earned() on every new block; a number re-syncs every that many milliseconds
+ * (at least MIN_SYNC_INTERVAL_MS). Anything else falls back to 'block' rather than polling in a tight loop.
+ */
+const parseSyncInterval = (setting: string): number | null => {
+  if (setting === 'block') return null;
+  const ms = Number(setting);
+  if (!Number.isFinite(ms) || ms <= 0) {
+    console.warn(`Invalid VITE_REWARDS_SYNC_INTERVAL "${setting}", syncing every block instead`);
+    return null;
+  }
+  return Math.max(ms, MIN_SYNC_INTERVAL_MS);
+};
+
+// Milliseconds between earned() re-syncs, or null to re-sync on every block
+export const REWARDS_SYNC_INTERVAL_MS = parseSyncInterval((import.meta.env.VITE_REWARDS_SYNC_INTERVAL || 'block').trim());
+// Relative gap between the extrapolated and on-chain value above which the UI flags the estimate
+export const DRIFT_THRESHOLD = 0.01;
+
+const RATE_SCALE = 10n ** 18n;
+
+export interface AccrualSource {
+  lpToken: string;
+  stake: bigint;
+  tvl: bigint;
+  // The pair's share of hourlyRewardRate, in reward token wei per hour
+  pairHourlyRewards: bigint;
+  pendingRewards: bigint;
+  lastRewardTime: bigint;
+  // Latest earned() value, when the caller already has one
+  earned?: bigint;
+}
+
+interface Anchor {
+  amount: bigint;
+  chainTime: number;
+  ratePerSecond: bigint;
+}
+
+const ratePerSecond = ({ stake, tvl, pairHourlyRewards }: AccrualSource) => (tvl > 0n ? (stake * pairHourlyRewards * RATE_SCALE) / (tvl * 3600n) : 0n);
+
+const valueAt = (anchor: Anchor, chainTime: number) => {
+  const elapsedMs = BigInt(Math.max(Math.floor((chainTime - anchor.chainTime) * 1000), 0));
+  return anchor.amount + (anchor.ratePerSecond * elapsedMs) / (1000n * RATE_SCALE);
+};
+
+/**
+ * Pending rewards that tick every second, extrapolated from each stake's share of its pair's emission.
+ * The estimate is re-anchored to earned() on every block (or interval) and `drift` holds the relative
+ * error the extrapolation had at the last sync.
+ */
+const useLiveRewards = (sources: AccrualSource[], userAddress?: string) => {
+  const { contract } = useContract();
+  const readProvider = useReadOnlyProvider();
+  const [anchors, setAnchors] = useState<Record<string, Anchor>>({});
+  const [drift, setDrift] = useState<Record<string, number>>({});
+  const [now, setNow] = useState(() => Date.now());
+  // Chain time minus local time, so extrapolation follows block timestamps rather than the local clock
+  const clockOffsetRef = useRef(0);
+  const anchorsRef = useRef<Record<string, Anchor>>({});
+  const sourcesKey = sources.map((source) => `${source.lpToken}:${source.stake}:${source.tvl}:${source.pairHourlyRewards}:${source.earned}`).join('|');
+
+  const chainNow = (localMs = Date.now()) => localMs / 1000 + clockOffsetRef.current;
+
+  const updateAnchors = (next: Record<string, Anchor>) => {
+    anchorsRef.current = next;
+    setAnchors(next);
+  };
+
+  useEffect(() => {
+    const time = chainNow();
+    updateAnchors(
+      Object.fromEntries(
+        sources.map((source) => {
+          const rate = ratePerSecond(source);
+          // Without an earned() reading, accrue from the stake's last reward checkpoint
+          const anchor =
+            source.earned !== undefined
+              ? { amount: source.earned, chainTime: time, ratePerSecond: rate }
+              : { amount: source.pendingRewards, chainTime: Number(source.lastRewardTime), ratePerSecond: rate };
+          return [source.lpToken, anchor];
+        })
+      )
+    );
+    setDrift({});
+  }, [sourcesKey]);
+
+  useEffect(() => {
+    if (!contract || !userAddress || sources.length === 0) return;
+    const stakingContract = contract.connect(readProvider) as ethers.Contract;
+
+    const sync = async () => {
+      try {
+        const [block, results] = await Promise.all([
+          readProvider.getBlock('latest'),
+          executeCalls(
+            readProvider,
+            sources.map((source) => ({ contract: stakingContract, method: 'earned', args: [userAddress, source.lpToken] }))
+          ),
+        ]);
+        if (!block) return;
+        clockOffsetRef.current = block.timestamp - Date.now() / 1000;
+
+        const nextAnchors = { ...anchorsRef.current };
+        const nextDrift: Record<string, number> = {};
+        sources.forEach((source, i) => {
+          const result = results[i];
+          if (!result.success) return;
+          const actual = result.value as bigint;
+          const previous = anchorsRef.current[source.lpToken];
+          if (previous && actual > 0n) {
+            const predicted = valueAt(previous, block.timestamp);
+            const gap = predicted > actual ? predicted - actual : actual - predicted;
+            nextDrift[source.lpToken] = Number((gap * 10_000n) / actual) / 10_000;
+          }
+          nextAnchors[source.lpToken] = { amount: actual, chainTime: block.timestamp, ratePerSecond: ratePerSecond(source) };
+        });
+        updateAnchors(nextAnchors);
+        setDrift(nextDrift);
+      } catch (err) {
+        console.error('Failed to sync pending rewards:', err);
+      }
+    };
+
+    if (REWARDS_SYNC_INTERVAL_MS === null) {
+      readProvider.on('block', sync);
+      return () => {
+        readProvider.off('block', sync);
+      };
+    }
+    const timer = setInterval(sync, REWARDS_SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [contract, userAddress, sourcesKey]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const getRewards = (lpToken: string) => {
+    const anchor = anchors[lpToken];
+    return anchor ? valueAt(anchor, chainNow(now)) : 0n;
+  };
+
+  const isDrifting = (lpToken: string) => (drift[lpToken] ?? 0) > DRIFT_THRESHOLD;
+
+  return { getRewards, drift, isDrifting };
+};
+
+export default useLiveRewards;
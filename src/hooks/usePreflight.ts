@@ -0,0 +1,35 @@
+import { useSetAtom } from 'jotai';
+import { ethers } from 'ethers';
+import { preflightAtom, PreflightRequest } from '@/store/preflight';
+import { useReadOnlyProvider } from '@/hooks/useReadOnlyProvider';
+import { decodeContractError } from '@/utils/errors';
+
+const usePreflight = () => {
+  const setPreflight = useSetAtom(preflightAtom);
+  const readProvider = useReadOnlyProvider();
+
+  /**
+   * Simulates the call from the connected account, then asks the user to confirm it in the preflight
+   * dialog. Resolves false when the user cancels or the simulation shows the call would revert.
+   */
+  const preflight = async (label: string, method: ethers.BaseContractMethod, args: unknown[]) => {
+    let request: Omit<PreflightRequest, 'resolve'>;
+    try {
+      await method.staticCall(...args);
+      const [gasLimit, feeData] = await Promise.all([method.estimateGas(...args), readProvider.getFeeData()]);
+      const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice;
+      request = { label, gasLimit, gasCost: gasPrice !== null ? gasLimit * gasPrice : undefined };
+    } catch (err) {
+      const decoded = decodeContractError(err, 'The transaction would fail');
+      request =
+        decoded.kind === 'contract' || decoded.kind === 'insufficient-funds'
+          ? { label, revertReason: decoded.message }
+          : { label, warning: decodeContractError(err, 'Could not simulate the transaction').message };
+    }
+    return new Promise<boolean>((resolve) => setPreflight({ ...request, resolve }));
+  };
+
+  return { preflight };
+};
+
+export default usePreflight;
@@ -0,0 +1,27 @@
+import { TARGET_CHAIN_ID } from '@/constants/networks'
+import { getReadOnlyProvider } from '@/hooks/useReadOnlyProvider'
+import { createDexScreenerOracle, createStaticOracle, createUniswapV2Oracle, PriceOracle, withCache, withFallback } from '@/utils/priceOracle'
+import mockPrices from '@/configs/mockPrices.json'
+
+const PRICE_TTL_MS = 60_000
+const HARDHAT_CHAIN_ID = 31337
+
+let priceOracle: PriceOracle | null = null
+
+export function getPriceOracle() {
+  if (!priceOracle) {
+    if ((TARGET_CHAIN_ID as number) === HARDHAT_CHAIN_ID) {
+      priceOracle = createStaticOracle(mockPrices)
+    } else {
+      // LP tokens are valued from reserves first; plain tokens fall through to DexScreener
+      const dexScreener = withCache(createDexScreenerOracle(TARGET_CHAIN_ID), PRICE_TTL_MS)
+      priceOracle = withCache(withFallback(createUniswapV2Oracle(getReadOnlyProvider(), dexScreener), dexScreener), PRICE_TTL_MS)
+    }
+  }
+  return priceOracle
+}
+
+/** Hook returning the app-wide cached price oracle for the target chain. */
+export function usePriceOracle() {
+  return getPriceOracle()
+}
@@ -0,0 +1,17 @@
+import { JsonRpcProvider, Network } from 'ethers'
+import { TARGET_CHAIN, TARGET_CHAIN_ID } from '@/constants/networks'
+
+let readOnlyProvider: JsonRpcProvider | null = null
+
+export function getReadOnlyProvider() {
+  if (!readOnlyProvider) {
+    const network = Network.from({ chainId: TARGET_CHAIN_ID, name: TARGET_CHAIN.chainName })
+    readOnlyProvider = new JsonRpcProvider(TARGET_CHAIN.rpcUrls[0], network, { staticNetwork: network })
+  }
+  return readOnlyProvider
+}
+
+/** Hook returning the shared public JSON-RPC provider for the target chain, usable without a wallet. */
+export function useReadOnlyProvider() {
+  return getReadOnlyProvider()
+}
@@ -0,0 +1,125 @@
+import { useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import { useContract } from '@/providers/ContractProvider';
+import { useReadOnlyProvider } from '@/hooks/useReadOnlyProvider';
+import { TARGET_CHAIN_ID } from '@/constants/networks';
+import { RoleMember, SignerChange } from '@/types';
+import { deleteCache, readCache, writeCache } from '@/utils/indexedDb';
+import { getStartBlock, queryLogsPaginated } from '@/utils/eventIndexer';
+import { executeCalls } from '@/utils/multicall';
+
+const ROLE_EVENTS = ['RoleGranted', 'RoleRevoked', 'SignerChanged'];
+const DEFAULT_ADMIN_ROLE = ethers.ZeroHash;
+const ADMIN_ROLE = ethers.id('ADMIN_ROLE');
+const AUDITED_ROLES = [DEFAULT_ADMIN_ROLE, ADMIN_ROLE];
+
+interface RoleCache {
+  lastIndexedBlock: number;
+  // Role hash -> checksummed holders
+  holders: Record<string, string[]>;
+  signerChanges: SignerChange[];
+}
+
+const emptyCache = (startBlock: number): RoleCache => ({ lastIndexedBlock: startBlock - 1, holders: {}, signerChanges: [] });
+
+/**
+ * Role membership rebuilt from RoleGranted / RoleRevoked events and cached in IndexedDB, then checked
+ * against hasRole() and getSigners() so drift between the role set and the signer list stands out.
+ */
+const useRoleMembers = () => {
+  const { contract } = useContract();
+  const readProvider = useReadOnlyProvider();
+  const [members, setMembers] = useState<RoleMember[]>([]);
+  const [signerChanges, setSignerChanges] = useState<SignerChange[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const cacheRef = useRef<{ key: string; cache: RoleCache } | null>(null);
+
+  const indexEvents = async (stakingContract: ethers.Contract, rebuild: boolean) => {
+    const address = await stakingContract.getAddress();
+    const cacheKey = `roles:${TARGET_CHAIN_ID}:${address.toLowerCase()}`;
+    if (rebuild) {
+      await deleteCache(cacheKey);
+      cacheRef.current = null;
+    }
+    if (cacheRef.current?.key !== cacheKey) {
+      cacheRef.current = { key: cacheKey, cache: (await readCache<RoleCache>(cacheKey)) ?? emptyCache(await getStartBlock(readProvider, address)) };
+    }
+    const { cache } = cacheRef.current;
+
+    const head = await readProvider.getBlockNumber();
+    if (head <= cache.lastIndexedBlock) return cache;
+
+    const holders = Object.fromEntries(Object.entries(cache.holders).map(([role, accounts]) => [role, new Set(accounts)]));
+    const signerChanges = [...cache.signerChanges];
+    let next = cache;
+    // Saved after every window so an interrupted cold scan resumes where it stopped
+    await queryLogsPaginated(stakingContract, ROLE_EVENTS, {
+      fromBlock: cache.lastIndexedBlock + 1,
+      toBlock: head,
+      onPage: async (logs, indexedBlock) => {
+        logs.forEach((log) => {
+          if (log.eventName === 'SignerChanged') {
+            signerChanges.push({ oldSigner: log.args.oldSigner, newSigner: log.args.newSigner, blockNumber: log.blockNumber, transactionHash: log.transactionHash });
+            return;
+          }
+          const role = log.args.role as string;
+          holders[role] ??= new Set();
+          if (log.eventName === 'RoleGranted') holders[role].add(ethers.getAddress(log.args.account));
+          else holders[role].delete(ethers.getAddress(log.args.account));
+        });
+        next = {
+          lastIndexedBlock: indexedBlock,
+          holders: Object.fromEntries(Object.entries(holders).map(([role, accounts]) => [role, Array.from(accounts)])),
+          signerChanges: [...signerChanges],
+        };
+        await writeCache(cacheKey, next);
+        cacheRef.current = { key: cacheKey, cache: next };
+      },
+    });
+    return next;
+  };
+
+  const sync = async (rebuild = false) => {
+    if (!contract) return;
+    setIsSyncing(true);
+    try {
+      const stakingContract = contract.connect(readProvider) as ethers.Contract;
+      const [cache, signers] = await Promise.all([indexEvents(stakingContract, rebuild), stakingContract.getSigners() as Promise<string[]>]);
+      const signerSet = new Set(Array.from(signers, (signer) => ethers.getAddress(signer)));
+      const fromEvents = (role: string) => new Set(cache.holders[role] ?? []);
+      const addresses = Array.from(new Set([...signerSet, ...AUDITED_ROLES.flatMap((role) => cache.holders[role] ?? [])]));
+
+      // hasRole() is the source of truth; events only tell us which addresses to ask about
+      const results = await executeCalls(
+        readProvider,
+        addresses.flatMap((address) => AUDITED_ROLES.map((role) => ({ contract: stakingContract, method: 'hasRole', args: [role, address] })))
+      );
+
+      const next = addresses
+        .map((address, i): RoleMember => {
+          const [defaultAdmin, admin] = results.slice(i * AUDITED_ROLES.length, (i + 1) * AUDITED_ROLES.length).map((result) => result.success && result.value === true);
+          const isSigner = signerSet.has(address);
+          const issues: string[] = [];
+          if (isSigner && !admin) issues.push('Signer without ADMIN_ROLE');
+          if (admin && !isSigner) issues.push('Holds ADMIN_ROLE but is not in the signer list');
+          if (fromEvents(ADMIN_ROLE).has(address) !== admin || fromEvents(DEFAULT_ADMIN_ROLE).has(address) !== defaultAdmin) {
+            issues.push('Event history disagrees with hasRole(); try rebuilding');
+          }
+          return { address, isDefaultAdmin: defaultAdmin, isAdmin: admin, isSigner, issues };
+        })
+        // Former holders with no role left and no signer slot are history, unless the events say otherwise
+        .filter((member) => member.isDefaultAdmin || member.isAdmin || member.isSigner || member.issues.length > 0);
+
+      setMembers(next);
+      setSignerChanges([...cache.signerChanges].reverse());
+    } catch (err) {
+      console.error('Failed to sync role members:', err);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return { members, signerChanges, isSyncing, sync, rebuild: () => sync(true) };
+};
+
+export default useRoleMembers;
@@ -0,0 +1,231 @@
+import { useEffect, useRef } from 'react';
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { ethers } from 'ethers';
+import SAFE_ABI from '@/assets/abi/Safe.json';
+import { useEthersSigner } from '@/hooks/useEthersSigner';
+import { useReadOnlyProvider } from '@/hooks/useReadOnlyProvider';
+import useNotification from '@/hooks/useNotification';
+import usePreflight from '@/hooks/usePreflight';
+import useTransactions from '@/hooks/useTransactions';
+import { TARGET_CHAIN_ID } from '@/constants/networks';
+import { connectedContractWalletAtom, safeAddressAtom, safeInfoAtom, safeQueueAtom } from '@/store/safe';
+import { QueuedSafeTransaction, SafeInfo } from '@/types';
+import { sameAddress } from '@/utils';
+import { decodeContractError } from '@/utils/errors';
+import { queryLogsPaginated } from '@/utils/eventIndexer';
+import { buildSafeTransaction, encodeSignatures, getSafeTxHash, isContractWallet, safeExecArgs, signSafeTransaction } from '@/utils/safe';
+
+const loadSafeInfo = async (provider: ethers.Provider, address: string): Promise<SafeInfo | null> => {
+  try {
+    const safe = new ethers.Contract(address, SAFE_ABI, provider);
+    const [owners, threshold, nonce, version] = await Promise.all([safe.getOwners(), safe.getThreshold(), safe.nonce(), safe.VERSION()]);
+    return { address: ethers.getAddress(address), owners: Array.from(owners as string[]), threshold: Number(threshold), nonce: Number(nonce), version };
+  } catch {
+    // Not a Safe: a different contract wallet, or an address without the Safe interface
+    return null;
+  }
+};
+
+/**
+ * Acting for a Safe: the connected wallet is either the Safe itself (a contract wallet) or an owner
+ * who picked a Safe. Staking-contract writes are then queued as Safe transactions that collect owner
+ * signatures and are executed with execTransaction once the threshold is met.
+ */
+const useSafe = () => {
+  const signer = useEthersSigner();
+  const readProvider = useReadOnlyProvider();
+  const { showNotification } = useNotification();
+  const { preflight } = usePreflight();
+  const { trackTransaction } = useTransactions();
+  const [safeAddress, setSafeAddress] = useAtom(safeAddressAtom);
+  const [queue, setQueue] = useAtom(safeQueueAtom);
+  const safeInfo = useAtomValue(safeInfoAtom);
+  const isConnectedContractWallet = useAtomValue(connectedContractWalletAtom);
+
+  // A connected contract wallet always acts as itself; an EOA acts for the chosen Safe if it owns it
+  const actingSafe = isConnectedContractWallet && signer ? signer.address : safeAddress;
+  const isOwner = !!signer && !!safeInfo && safeInfo.owners.some((owner) => sameAddress(owner, signer.address));
+  const isActingAsSafe = !!actingSafe && !!safeInfo && sameAddress(safeInfo.address, actingSafe) && (isConnectedContractWallet || isOwner);
+  const safeQueue = queue.filter((item) => sameAddress(item.safeAddress, actingSafe) && item.chainId === TARGET_CHAIN_ID);
+
+  const updateItem = (safeTxHash: string, update: Partial<QueuedSafeTransaction>) => {
+    setQueue((current) => current.map((item) => (item.safeTxHash === safeTxHash ? { ...item, ...update } : item)));
+  };
+
+  // Only signatures recovering to a current owner count toward the threshold
+  const validSignatures = (item: QueuedSafeTransaction) =>
+    Object.entries(item.signatures).filter(([owner, signature]) => {
+      try {
+        return safeInfo?.owners.some((candidate) => sameAddress(candidate, owner)) && sameAddress(ethers.recoverAddress(item.safeTxHash, signature), owner);
+      } catch {
+        return false;
+      }
+    });
+
+  /** Signatures an execution by the connected wallet would carry, including its own implicit one if it is an owner. */
+  const signatureCount = (item: QueuedSafeTransaction) => {
+    const signed = validSignatures(item);
+    return signed.length + (isOwner && signer && !signed.some(([owner]) => sameAddress(owner, signer.address)) ? 1 : 0);
+  };
+
+  /** Simulates `data` as a call from the Safe and queues it, signed by the connected owner when there is one. */
+  const queueTransaction = async (label: string, to: string, data: string) => {
+    if (!safeInfo || !isActingAsSafe) throw new Error('No Safe selected');
+    // Reverts here are the staking contract rejecting the Safe, e.g. a missing ADMIN_ROLE
+    await readProvider.call({ from: safeInfo.address, to, data });
+
+    const queuedNonces = safeQueue.filter((item) => item.status === 'queued').map((item) => item.tx.nonce + 1);
+    const tx = buildSafeTransaction(to, data, Math.max(safeInfo.nonce, ...queuedNonces));
+    const safeTxHash = getSafeTxHash(safeInfo.address, TARGET_CHAIN_ID, tx);
+    const signatures: Record<string, string> = {};
+    if (signer && isOwner) {
+      signatures[signer.address] = await signSafeTransaction(signer, safeInfo.address, TARGET_CHAIN_ID, tx);
+    }
+    const item: QueuedSafeTransaction = {
+      safeTxHash,
+      safeAddress: safeInfo.address,
+      chainId: TARGET_CHAIN_ID,
+      label,
+      tx,
+      signatures,
+      status: 'queued',
+      createdBlock: await readProvider.getBlockNumber(),
+      createdAt: Date.now(),
+    };
+    setQueue((current) => [item, ...current]);
+    showNotification('info', `${label} queued for the Safe (${Object.keys(signatures).length} of ${safeInfo.threshold} signatures)`);
+    return item;
+  };
+
+  const signTransaction = async (safeTxHash: string) => {
+    const item = safeQueue.find((candidate) => candidate.safeTxHash === safeTxHash);
+    if (!item || !signer || !isOwner) return;
+    try {
+      const signature = await signSafeTransaction(signer, item.safeAddress, item.chainId, item.tx);
+      updateItem(safeTxHash, { signatures: { ...item.signatures, [signer.address]: signature } });
+      showNotification('success', `Signed ${item.label}`);
+    } catch (err) {
+      showNotification('error', decodeContractError(err, 'Failed to sign Safe transaction').message);
+    }
+  };
+
+  const executeTransaction = async (safeTxHash: string) => {
+    const item = safeQueue.find((candidate) => candidate.safeTxHash === safeTxHash);
+    if (!item || !signer || !safeInfo) return;
+    try {
+      if (isConnectedContractWallet) throw new Error('Execute from an owner account, or import the transaction into the Safe app');
+      if (signatureCount(item) < safeInfo.threshold) throw new Error(`Needs ${safeInfo.threshold} signatures`);
+      const signatures = encodeSignatures(Object.fromEntries(validSignatures(item)), isOwner ? signer.address : undefined);
+      const safe = new ethers.Contract(item.safeAddress, SAFE_ABI, signer);
+      const method = safe.getFunction('execTransaction');
+      const args = safeExecArgs(item.tx, signatures);
+      if (!(await preflight(`Execute ${item.label} via Safe`, method, args))) return;
+      const receipt = await trackTransaction(`Execute ${item.label} via Safe`, await method(...args));
+      const failed = receipt?.logs.some((log) => safe.interface.parseLog(log)?.name === 'ExecutionFailure');
+      updateItem(safeTxHash, { status: failed ? 'failed' : 'executed', executionHash: receipt?.hash });
+    } catch (err) {
+      showNotification('error', decodeContractError(err, 'Failed to execute Safe transaction').message);
+    }
+  };
+
+  /** Adds a transaction exported by another owner, or merges in their signatures if it is already queued. */
+  const importTransaction = (json: string) => {
+    const imported = JSON.parse(json) as QueuedSafeTransaction;
+    if (getSafeTxHash(imported.safeAddress, imported.chainId, imported.tx) !== imported.safeTxHash) {
+      throw new Error('The transaction does not match its Safe transaction hash');
+    }
+    setQueue((current) => {
+      const existing = current.find((item) => item.safeTxHash === imported.safeTxHash);
+      if (!existing) return [{ ...imported, status: 'queued' }, ...current];
+      return current.map((item) => (item === existing ? { ...item, signatures: { ...item.signatures, ...imported.signatures } } : item));
+    });
+  };
+
+  const exportTransaction = (safeTxHash: string) => JSON.stringify(safeQueue.find((item) => item.safeTxHash === safeTxHash), null, 2);
+
+  const removeTransaction = (safeTxHash: string) => setQueue((current) => current.filter((item) => item.safeTxHash !== safeTxHash));
+
+  return {
+    safeAddress,
+    setSafeAddress,
+    safeInfo,
+    actingSafe,
+    isActingAsSafe,
+    isOwner,
+    isConnectedContractWallet,
+    queue: safeQueue,
+    signatureCount,
+    queueTransaction,
+    signTransaction,
+    executeTransaction,
+    importTransaction,
+    exportTransaction,
+    removeTransaction,
+  };
+};
+
+/**
+ * Mounted once in the layout: detects a contract-wallet connection, loads the acted-for Safe, and
+ * settles queued transactions once the Safe's nonce moves past them, whoever executed them.
+ */
+export const useSafeWatcher = () => {
+  const signer = useEthersSigner();
+  const readProvider = useReadOnlyProvider();
+  const safeAddress = useAtomValue(safeAddressAtom);
+  const [isConnectedContractWallet, setConnectedContractWallet] = useAtom(connectedContractWalletAtom);
+  const setSafeInfo = useSetAtom(safeInfoAtom);
+  const [queue, setQueue] = useAtom(safeQueueAtom);
+  const actingSafe = isConnectedContractWallet && signer ? signer.address : safeAddress;
+  // The block listener outlives renders, so it reads the queue through a ref
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+
+  useEffect(() => {
+    if (!signer) return setConnectedContractWallet(false);
+    isContractWallet(readProvider, signer.address).then(setConnectedContractWallet);
+  }, [signer]);
+
+  useEffect(() => {
+    setSafeInfo(null);
+    if (!actingSafe || !ethers.isAddress(actingSafe)) return;
+    loadSafeInfo(readProvider, actingSafe).then(setSafeInfo);
+  }, [actingSafe]);
+
+  const hasQueued = queue.some((item) => item.status === 'queued' && sameAddress(item.safeAddress, actingSafe) && item.chainId === TARGET_CHAIN_ID);
+
+  useEffect(() => {
+    if (!hasQueued || !actingSafe) return;
+    const safe = new ethers.Contract(actingSafe, SAFE_ABI, readProvider);
+
+    const settle = async () => {
+      const info = await loadSafeInfo(readProvider, actingSafe);
+      if (!info) return;
+      setSafeInfo(info);
+      const consumed = queueRef.current.filter((item) => item.status === 'queued' && sameAddress(item.safeAddress, actingSafe) && item.tx.nonce < info.nonce);
+      if (consumed.length === 0) return;
+
+      const head = await readProvider.getBlockNumber();
+      const fromBlock = Math.min(...consumed.map((item) => item.createdBlock));
+      const logs = await queryLogsPaginated(safe, ['ExecutionSuccess', 'ExecutionFailure'], { fromBlock, toBlock: head });
+      const outcomes = new Map(logs.map((log) => [log.args.txHash as string, log]));
+      setQueue((current) =>
+        current.map((item) => {
+          if (!consumed.some((candidate) => candidate.safeTxHash === item.safeTxHash)) return item;
+          const log = outcomes.get(item.safeTxHash);
+          // The nonce was used by a different transaction, so this one can never execute
+          if (!log) return { ...item, status: 'replaced' };
+          return { ...item, status: log.eventName === 'ExecutionSuccess' ? 'executed' : 'failed', executionHash: log.transactionHash };
+        })
+      );
+    };
+
+    settle().catch((err) => console.error('Failed to settle Safe transactions:', err));
+    const onBlock = () => settle().catch((err) => console.error('Failed to settle Safe transactions:', err));
+    readProvider.on('block', onBlock);
+    return () => {
+      readProvider.off('block', onBlock);
+    };
+  }, [hasQueued, actingSafe]);
+};
+
+export default useSafe;
@@ -0,0 +1,101 @@
+import { useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import { useContract } from '@/providers/ContractProvider';
+import { useReadOnlyProvider } from '@/hooks/useReadOnlyProvider';
+import { TARGET_CHAIN_ID } from '@/constants/networks';
+import { StakingActivity } from '@/types';
+import { readCache, writeCache } from '@/utils/indexedDb';
+import { getStartBlock, queryLogsPaginated } from '@/utils/eventIndexer';
+
+const ACTIVITY_TYPES: Record<string, StakingActivity['type']> = {
+  StakeAdded: 'stake',
+  StakeRemoved: 'unstake',
+  RewardsClaimed: 'claim',
+};
+const TIMESTAMP_BATCH_SIZE = 20;
+
+interface StakingHistoryCache {
+  lastIndexedBlock: number;
+  activities: StakingActivity[];
+}
+
+/**
+ * Stake, unstake and claim history of one address, cached in IndexedDB per user.
+ * The staking events do not index `user`, so the logs are scanned in full and filtered client-side.
+ */
+const useStakingHistory = () => {
+  const { contract } = useContract();
+  const readProvider = useReadOnlyProvider();
+  const [activities, setActivities] = useState<StakingActivity[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const cacheRef = useRef<{ key: string; cache: StakingHistoryCache } | null>(null);
+  const syncingRef = useRef(false);
+
+  const fetchTimestamps = async (blockNumbers: number[]) => {
+    const timestamps = new Map<number, number>();
+    for (let i = 0; i < blockNumbers.length; i += TIMESTAMP_BATCH_SIZE) {
+      const blocks = await Promise.all(blockNumbers.slice(i, i + TIMESTAMP_BATCH_SIZE).map((blockNumber) => readProvider.getBlock(blockNumber)));
+      blocks.forEach((block, j) => {
+        // Caching a placeholder would show the activity as 1970 forever, so fail the sync and retry it next time
+        if (!block) throw new Error(`Block ${blockNumbers[i + j]} is not available from the RPC`);
+        timestamps.set(block.number, block.timestamp);
+      });
+    }
+    return timestamps;
+  };
+
+  const sync = async (userAddress: string) => {
+    if (!contract || syncingRef.current) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const stakingContract = contract.connect(readProvider) as ethers.Contract;
+      const address = await contract.getAddress();
+      const cacheKey = `history:${TARGET_CHAIN_ID}:${address.toLowerCase()}:${userAddress.toLowerCase()}`;
+      if (cacheRef.current?.key !== cacheKey) {
+        const cached = (await readCache<StakingHistoryCache>(cacheKey)) ?? { lastIndexedBlock: (await getStartBlock(readProvider, address)) - 1, activities: [] };
+        cacheRef.current = { key: cacheKey, cache: cached };
+        setActivities(cached.activities);
+      }
+      const { cache } = cacheRef.current;
+
+      const head = await readProvider.getBlockNumber();
+      if (head <= cache.lastIndexedBlock) return;
+      let activities = cache.activities;
+      // Saved after every window so an interrupted cold scan resumes where it stopped
+      await queryLogsPaginated(stakingContract, Object.keys(ACTIVITY_TYPES), {
+        fromBlock: cache.lastIndexedBlock + 1,
+        toBlock: head,
+        onPage: async (logs, indexedBlock) => {
+          const userLogs = logs.filter((log) => log.args.user.toLowerCase() === userAddress.toLowerCase());
+          const timestamps = await fetchTimestamps(Array.from(new Set(userLogs.map((log) => log.blockNumber))));
+          activities = [
+            ...activities,
+            ...userLogs.map((log) => ({
+              type: ACTIVITY_TYPES[log.eventName],
+              lpToken: log.args.lpToken as string,
+              amount: log.args.amount as bigint,
+              blockNumber: log.blockNumber,
+              timestamp: timestamps.get(log.blockNumber) ?? 0,
+              transactionHash: log.transactionHash,
+              logIndex: log.logIndex,
+            })),
+          ];
+          const next: StakingHistoryCache = { lastIndexedBlock: indexedBlock, activities };
+          await writeCache(cacheKey, next);
+          cacheRef.current = { key: cacheKey, cache: next };
+          if (userLogs.length > 0) setActivities(activities);
+        },
+      });
+    } catch (err) {
+      console.error('Failed to sync staking history:', err);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  };
+
+  return { activities, isSyncing, sync };
+};
+
+export default useStakingHistory;
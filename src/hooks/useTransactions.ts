@@ -0,0 +1,134 @@
+import { useEffect } from 'react';
+import { useAtom } from 'jotai';
+import { ethers } from 'ethers';
+import { transactionsAtom } from '@/store/transactions';
+import { useReadOnlyProvider } from '@/hooks/useReadOnlyProvider';
+import useNotification from '@/hooks/useNotification';
+import { TARGET_CHAIN_ID } from '@/constants/networks';
+import { TrackedTransaction } from '@/types';
+import { decodeContractError } from '@/utils/errors';
+import { CallsReceipt } from '@/utils/walletCalls';
+
+const MAX_TRACKED = 50;
+// Confirmations counted in the drawer; past this a transaction is considered final
+export const CONFIRMATION_TARGET = 12;
+
+const useTransactions = () => {
+  const [transactions, setTransactions] = useAtom(transactionsAtom);
+  const { showNotification } = useNotification();
+
+  const updateTransaction = (hash: string, update: Partial<TrackedTransaction>) => {
+    setTransactions((current) => current.map((tx) => (tx.hash === hash ? { ...tx, ...update } : tx)));
+  };
+
+  /** Records a submitted transaction and resolves with its receipt once mined; rethrows when it fails. */
+  const trackTransaction = async (label: string, tx: ethers.TransactionResponse) => {
+    const record: TrackedTransaction = {
+      hash: tx.hash,
+      label,
+      status: 'pending',
+      confirmations: 0,
+      timestamp: Date.now(),
+      chainId: Number(tx.chainId),
+    };
+    setTransactions((current) => [record, ...current].slice(0, MAX_TRACKED));
+    showNotification('info', `${label} submitted`);
+
+    try {
+      const receipt = await tx.wait();
+      updateTransaction(tx.hash, { status: 'confirmed', confirmations: 1, blockNumber: receipt?.blockNumber });
+      showNotification('success', `${label} confirmed`);
+      return receipt;
+    } catch (err) {
+      // A sped-up transaction is the same action under a new hash
+      if (ethers.isError(err, 'TRANSACTION_REPLACED') && !err.cancelled) {
+        updateTransaction(tx.hash, { hash: err.replacement.hash, status: 'confirmed', confirmations: 1, blockNumber: err.receipt.blockNumber });
+        return err.receipt;
+      }
+      updateTransaction(tx.hash, { status: 'failed', error: decodeContractError(err, 'Transaction failed').message });
+      throw err;
+    }
+  };
+
+  /** Records transactions that were sent as an EIP-5792 batch and have already settled. */
+  const recordBatch = (label: string, chainId: number, receipts: CallsReceipt[]) => {
+    const records: TrackedTransaction[] = receipts.map((receipt, i) => ({
+      hash: receipt.transactionHash,
+      label: receipts.length > 1 ? `${label} (${i + 1}/${receipts.length})` : label,
+      status: receipt.success ? 'confirmed' : 'failed',
+      confirmations: 1,
+      timestamp: Date.now(),
+      chainId,
+    }));
+    setTransactions((current) => [...records, ...current].slice(0, MAX_TRACKED));
+  };
+
+  const clearFinished = () => {
+    setTransactions((current) => current.filter((tx) => tx.status === 'pending'));
+  };
+
+  const pendingCount = transactions.filter((tx) => tx.status === 'pending').length;
+
+  return { transactions, pendingCount, trackTransaction, recordBatch, clearFinished };
+};
+
+/**
+ * Mounted once in the layout: re-attaches to transactions left pending by a previous session and
+ * keeps confirmation counts moving until they reach CONFIRMATION_TARGET.
+ */
+export const useTransactionWatcher = () => {
+  const [transactions, setTransactions] = useAtom(transactionsAtom);
+  const readProvider = useReadOnlyProvider();
+
+  const settle = (hash: string, receipt: ethers.TransactionReceipt | null, error?: string) => {
+    setTransactions((current) =>
+      current.map((tx) =>
+        tx.hash === hash
+          ? receipt
+            ? { ...tx, status: receipt.status === 1 ? 'confirmed' : 'failed', blockNumber: receipt.blockNumber, confirmations: 1, error: receipt.status === 1 ? undefined : 'Transaction reverted' }
+            : { ...tx, status: 'failed', error }
+          : tx
+      )
+    );
+  };
+
+  useEffect(() => {
+    const resume = async (hash: string) => {
+      try {
+        const receipt = await readProvider.getTransactionReceipt(hash);
+        if (receipt) return settle(hash, receipt);
+        // Unknown to the node after a reload means the wallet never broadcast it or it was dropped
+        if (!(await readProvider.getTransaction(hash))) return settle(hash, null, 'Dropped from the mempool');
+        settle(hash, await readProvider.waitForTransaction(hash));
+      } catch (err) {
+        console.error('Failed to resume transaction:', err);
+      }
+    };
+    transactions.filter((tx) => tx.status === 'pending' && tx.chainId === TARGET_CHAIN_ID).forEach((tx) => resume(tx.hash));
+  }, []);
+
+  const needsConfirmations = transactions.some((tx) => tx.status === 'confirmed' && tx.blockNumber !== undefined && tx.chainId === TARGET_CHAIN_ID && tx.confirmations < CONFIRMATION_TARGET);
+
+  useEffect(() => {
+    if (!needsConfirmations) return;
+    const onBlock = (blockNumber: number) => {
+      setTransactions((current) => {
+        let changed = false;
+        const next = current.map((tx) => {
+          if (tx.status !== 'confirmed' || tx.blockNumber === undefined || tx.confirmations >= CONFIRMATION_TARGET) return tx;
+          const confirmations = Math.min(blockNumber - tx.blockNumber + 1, CONFIRMATION_TARGET);
+          if (confirmations === tx.confirmations) return tx;
+          changed = true;
+          return { ...tx, confirmations };
+        });
+        return changed ? next : current;
+      });
+    };
+    readProvider.on('block', onBlock);
+    return () => {
+      readProvider.off('block', onBlock);
+    };
+  }, [needsConfirmations]);
+};
+
+export default useTransactions;
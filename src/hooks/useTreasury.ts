@@ -0,0 +1,87 @@
+import { useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import { useContract } from '@/providers/ContractProvider';
+import { useReadOnlyProvider } from '@/hooks/useReadOnlyProvider';
+import { TARGET_CHAIN_ID } from '@/constants/networks';
+import { readCache, writeCache } from '@/utils/indexedDb';
+import { getStartBlock, queryLogsPaginated } from '@/utils/eventIndexer';
+import { executeCalls } from '@/utils/multicall';
+
+interface StakerCache {
+  lastIndexedBlock: number;
+  // Every (user, lpToken) that has ever staked, as "user:lpToken"
+  positions: string[];
+}
+
+/**
+ * Reward balance, hourly rate and the rewards already owed to stakers. Stakers are found from
+ * StakeAdded events (cached in IndexedDB) and their unclaimed rewards summed with earned().
+ */
+const useTreasury = () => {
+  const { contract, rewardTokenContract, getHourlyRewardRate } = useContract();
+  const readProvider = useReadOnlyProvider();
+  const [balance, setBalance] = useState<bigint>(0n);
+  const [hourlyRate, setHourlyRate] = useState<bigint>(0n);
+  const [pendingRewards, setPendingRewards] = useState<bigint>(0n);
+  const [stakerCount, setStakerCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const cacheRef = useRef<{ key: string; cache: StakerCache } | null>(null);
+
+  const syncPositions = async (stakingContract: ethers.Contract) => {
+    const address = await stakingContract.getAddress();
+    const cacheKey = `stakers:${TARGET_CHAIN_ID}:${address.toLowerCase()}`;
+    if (cacheRef.current?.key !== cacheKey) {
+      const cached = (await readCache<StakerCache>(cacheKey)) ?? { lastIndexedBlock: (await getStartBlock(readProvider, address)) - 1, positions: [] };
+      cacheRef.current = { key: cacheKey, cache: cached };
+    }
+    const { cache } = cacheRef.current;
+
+    const head = await readProvider.getBlockNumber();
+    if (head <= cache.lastIndexedBlock) return cache.positions;
+    const positions = new Set(cache.positions);
+    // Saved after every window so an interrupted cold scan resumes where it stopped
+    await queryLogsPaginated(stakingContract, ['StakeAdded'], {
+      fromBlock: cache.lastIndexedBlock + 1,
+      toBlock: head,
+      onPage: async (logs, indexedBlock) => {
+        logs.forEach((log) => positions.add(`${(log.args.user as string).toLowerCase()}:${(log.args.lpToken as string).toLowerCase()}`));
+        const next: StakerCache = { lastIndexedBlock: indexedBlock, positions: Array.from(positions) };
+        await writeCache(cacheKey, next);
+        cacheRef.current = { key: cacheKey, cache: next };
+      },
+    });
+    return Array.from(positions);
+  };
+
+  const refresh = async () => {
+    if (!contract || !rewardTokenContract) return;
+    setIsLoading(true);
+    try {
+      const stakingContract = contract.connect(readProvider) as ethers.Contract;
+      const [balance, hourlyRate, positions] = await Promise.all([
+        rewardTokenContract.balanceOf(await contract.getAddress()),
+        getHourlyRewardRate(),
+        syncPositions(stakingContract),
+      ]);
+      const results = await executeCalls(
+        readProvider,
+        positions.map((position) => ({ contract: stakingContract, method: 'earned', args: position.split(':') }))
+      );
+      const owed = positions
+        .map((position, i) => ({ user: position.split(':')[0], amount: results[i].success ? (results[i].value as bigint) : 0n }))
+        .filter(({ amount }) => amount > 0n);
+      setBalance(balance);
+      setHourlyRate(hourlyRate);
+      setPendingRewards(owed.reduce((sum, { amount }) => sum + amount, 0n));
+      setStakerCount(new Set(owed.map(({ user }) => user)).size);
+    } catch (err) {
+      console.error('Failed to load treasury:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return { balance, hourlyRate, pendingRewards, stakerCount, isLoading, refresh };
+};
+
+export default useTreasury;
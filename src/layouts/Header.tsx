@@ -9,7 +9,11 @@ import { useAtom } from 'jotai';
 import LightModeIcon from '@mui/icons-material/LightModeOutlined';
 import BedtimeIcon from '@mui/icons-material/BedtimeOutlined';
 import HomeIcon from '@mui/icons-material/Home';
+import HistoryIcon from '@mui/icons-material/History';
+import SecurityIcon from '@mui/icons-material/Security';
+import ShieldIcon from '@mui/icons-material/Shield';
 import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
+import TransactionDrawer from '@/components/TransactionDrawer';
 
 const Header: React.FC = () => {
   const theme = useTheme();
@@ -100,6 +104,7 @@ const Header: React.FC = () => {
           {isMobile ? (
             <>
               <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                <TransactionDrawer />
                 <ConnectButton accountStatus="avatar" chainStatus="icon" />
                 <IconButton
                   size="large"
@@ -134,6 +139,15 @@ const Header: React.FC = () => {
                 <MenuItem component={Link} to="/" onClick={handleClose} selected={location.pathname === '/'}>
                   <HomeIcon sx={{ mr: 1 }} /> Home
                 </MenuItem>
+                <MenuItem component={Link} to="/history" onClick={handleClose} selected={location.pathname === '/history'}>
+                  <HistoryIcon sx={{ mr: 1 }} /> History
+                </MenuItem>
+                <MenuItem component={Link} to="/approvals" onClick={handleClose} selected={location.pathname === '/approvals'}>
+                  <SecurityIcon sx={{ mr: 1 }} /> Approvals
+                </MenuItem>
+                <MenuItem component={Link} to="/safe" onClick={handleClose} selected={location.pathname === '/safe'}>
+                  <ShieldIcon sx={{ mr: 1 }} /> Safe
+                </MenuItem>
                 <MenuItem component={Link} to="/admin" onClick={handleClose} selected={location.pathname === '/admin'}>
                   <AdminPanelSettingsIcon sx={{ mr: 1 }} /> Admin Panel
                 </MenuItem>
@@ -159,6 +173,60 @@ const Header: React.FC = () => {
               >
                 Home
               </Button>
+              <Button 
+                component={Link} 
+                to="/history" 
+                color="inherit"
+                startIcon={<HistoryIcon />}
+                sx={{
+                  borderRadius: 2,
+                  px: 2,
+                  backgroundColor: location.pathname === '/history' ? 'action.selected' : 'transparent',
+                  '&:hover': {
+                    backgroundColor: 'action.hover',
+                    transform: 'translateY(-2px)'
+                  },
+                  transition: 'transform 0.2s'
+                }}
+              >
+                History
+              </Button>
+              <Button 
+                component={Link} 
+                to="/approvals" 
+                color="inherit"
+                startIcon={<SecurityIcon />}
+                sx={{
+                  borderRadius: 2,
+                  px: 2,
+                  backgroundColor: location.pathname === '/approvals' ? 'action.selected' : 'transparent',
+                  '&:hover': {
+                    backgroundColor: 'action.hover',
+                    transform: 'translateY(-2px)'
+                  },
+                  transition: 'transform 0.2s'
+                }}
+              >
+                Approvals
+              </Button>
+              <Button 
+                component={Link} 
+                to="/safe" 
+                color="inherit"
+                startIcon={<ShieldIcon />}
+                sx={{
+                  borderRadius: 2,
+                  px: 2,
+                  backgroundColor: location.pathname === '/safe' ? 'action.selected' : 'transparent',
+                  '&:hover': {
+                    backgroundColor: 'action.hover',
+                    transform: 'translateY(-2px)'
+                  },
+                  transition: 'transform 0.2s'
+                }}
+              >
+                Safe
+              </Button>
               <Button 
                 component={Link} 
                 to="/admin" 
@@ -178,6 +246,7 @@ const Header: React.FC = () => {
                 Admin Panel
               </Button>
               <ConnectButton accountStatus="avatar" chainStatus="icon" />
+              <TransactionDrawer />
               <IconButton 
                 onClick={toggleColorMode}
                 sx={{
@@ -4,18 +4,25 @@ import Header from './Header';
 import Footer from './Footer';
 import NotifySnackBar from '@/components/NotifySnackBar';
 import NetworkWarning from '@/components/NetworkWarning';
+import PreflightDialog from '@/components/PreflightDialog';
 import { useEffect } from 'react';
-import { useChainId } from 'wagmi';
+import { useAccount, useChainId } from 'wagmi';
 import { TARGET_CHAIN_ID } from '@/constants/networks';
+import { useTransactionWatcher } from '@/hooks/useTransactions';
+import { useSafeWatcher } from '@/hooks/useSafe';
 
 const Layout: React.FC = () => {
   const chainId = useChainId();
+  const { isConnected } = useAccount();
+  useTransactionWatcher();
+  useSafeWatcher();
 
   useEffect(() => {
     localStorage.setItem('lastVisit', new Date().getTime().toString());
   }, []);
 
-  if (chainId !== TARGET_CHAIN_ID) {
+  // Visitors without a wallet get the read-only view; only a connected wallet on the wrong chain is blocked
+  if (isConnected && chainId !== TARGET_CHAIN_ID) {
     return <NetworkWarning />;
   }
 
@@ -42,6 +49,7 @@ const Layout: React.FC = () => {
       </Box>
       <Footer />
       <NotifySnackBar />
+      <PreflightDialog />
     </Box>
   );
 };
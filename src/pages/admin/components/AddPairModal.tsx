@@ -1,8 +1,14 @@
 import ModalBox from '@/components/ModalBox';
 import { useContract } from '@/providers/ContractProvider';
-import { Alert, Button, Card, CardActions, CardContent, Modal, Stack, TextField, Typography } from '@mui/material';
+import { Alert, Box, Button, Card, CardActions, CardContent, CircularProgress, InputAdornment, Modal, Stack, TextField, Typography } from '@mui/material';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import { ethers } from 'ethers';
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { PairValidation } from '@/types';
+import { formatTokenAmount, toTokenAmount } from '@/utils/tokenAmount';
+
+// Wait for the admin to stop typing before hitting the RPC
+const VALIDATION_DELAY_MS = 400;
 
 interface AddPairModalProps {
   open: boolean;
@@ -16,8 +22,12 @@ const AddPairModal: React.FC<AddPairModalProps> = ({ open, onClose }) => {
   const [newPairWeight, setNewPairWeight] = useState<string>('0');
   const [maxWeight, setMaxWeight] = useState<number>();
   const [error, setError] = useState<string>('');
+  const [validation, setValidation] = useState<PairValidation | null>(null);
+  const [isValidating, setIsValidating] = useState<boolean>(false);
+  // Fields last filled from a validation rather than typed by the admin; these follow the LP address
+  const autoFilledRef = useRef({ name: false, platform: false });
 
-  const { contract, proposeAddPair, getMaxWeight } = useContract();
+  const { contract, proposeAddPair, getMaxWeight, validatePair } = useContract();
 
   useEffect(() => {
     async function loadContractData() {
@@ -27,6 +37,39 @@ const AddPairModal: React.FC<AddPairModalProps> = ({ open, onClose }) => {
     loadContractData();
   }, [contract]);
 
+  useEffect(() => {
+    setValidation(null);
+    if (autoFilledRef.current.name) setNewPairName('');
+    if (autoFilledRef.current.platform) setNewPairPlatform('');
+    if (!ethers.isAddress(newPairAddress)) return;
+    let cancelled = false;
+    setIsValidating(true);
+    const timer = setTimeout(async () => {
+      const result = await validatePair(newPairAddress);
+      if (cancelled) return;
+      setValidation(result);
+      setIsValidating(false);
+      // Only fill fields the admin hasn't typed into
+      if (result.isV2Pair) {
+        setNewPairName((name) => {
+          if (name && !autoFilledRef.current.name) return name;
+          autoFilledRef.current.name = true;
+          return `${result.symbol0}-${result.symbol1}`;
+        });
+        setNewPairPlatform((platform) => {
+          if (platform && !autoFilledRef.current.platform) return platform;
+          autoFilledRef.current.platform = !!result.platform;
+          return result.platform;
+        });
+      }
+    }, VALIDATION_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setIsValidating(false);
+    };
+  }, [newPairAddress, contract]);
+
   const validateInputs = (): boolean => {
     if (!newPairAddress || !newPairPlatform || !newPairName || newPairWeight === '0') {
       setError('Please fill in all fields');
@@ -44,6 +87,10 @@ const AddPairModal: React.FC<AddPairModalProps> = ({ open, onClose }) => {
       setError('Platform name too long (max 32 bytes)');
       return false;
     }
+    if (!validation || validation.errors.length > 0) {
+      setError(validation?.errors[0] ?? 'LP token has not been validated yet');
+      return false;
+    }
     setError('');
     return true;
   };
@@ -74,15 +121,56 @@ const AddPairModal: React.FC<AddPairModalProps> = ({ open, onClose }) => {
               <TextField 
                 label="LP Token Address"
                 value={newPairAddress}
-                onChange={(e) => setNewPairAddress(e.target.value)}
+                onChange={(e) => setNewPairAddress(e.target.value.trim())}
                 variant="outlined"
                 fullWidth
+                InputProps={{
+                  endAdornment: (
+                    <InputAdornment position="end">
+                      {isValidating ? (
+                        <CircularProgress size={20} />
+                      ) : (
+                        validation && validation.errors.length === 0 && <CheckCircleIcon color="success" />
+                      )}
+                    </InputAdornment>
+                  ),
+                }}
               />
+
+              {validation && validation.errors.length > 0 && (
+                <Alert severity="warning">
+                  {validation.errors.map((message) => (
+                    <div key={message}>{message}</div>
+                  ))}
+                </Alert>
+              )}
+
+              {validation?.isV2Pair && (
+                <Box sx={{ bgcolor: 'background.default', p: 2, borderRadius: 1 }}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Reserves{validation.platform ? ` on ${validation.platform}` : ''}
+                  </Typography>
+                  <Typography variant="body2">
+                    {formatTokenAmount(toTokenAmount(validation.reserve0, validation.decimals0))} {validation.symbol0}
+                  </Typography>
+                  <Typography variant="body2">
+                    {formatTokenAmount(toTokenAmount(validation.reserve1, validation.decimals1))} {validation.symbol1}
+                  </Typography>
+                  {!validation.platform && (
+                    <Typography variant="caption" color="text.secondary">
+                      Unknown factory {validation.factory} on this network; enter the platform name below
+                    </Typography>
+                  )}
+                </Box>
+              )}
               
               <TextField 
                 label="LP Token Pair Name"
                 value={newPairName}
-                onChange={(e) => setNewPairName(e.target.value)}
+                onChange={(e) => {
+                  autoFilledRef.current.name = false;
+                  setNewPairName(e.target.value);
+                }}
                 variant="outlined"
                 fullWidth
               />
@@ -90,7 +178,10 @@ const AddPairModal: React.FC<AddPairModalProps> = ({ open, onClose }) => {
               <TextField 
                 label="Platform Name"
                 value={newPairPlatform}
-                onChange={(e) => setNewPairPlatform(e.target.value)}
+                onChange={(e) => {
+                  autoFilledRef.current.platform = false;
+                  setNewPairPlatform(e.target.value);
+                }}
                 helperText="Max 32 bytes"
                 variant="outlined"
                 fullWidth
@@ -113,6 +204,7 @@ const AddPairModal: React.FC<AddPairModalProps> = ({ open, onClose }) => {
               fullWidth 
               variant="contained" 
               onClick={handleProposeAddPair}
+              disabled={isValidating || !validation || validation.errors.length > 0}
               size="large"
             >
               Propose New Pair
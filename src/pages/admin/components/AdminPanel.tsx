@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { useAtom } from 'jotai';
+import { Link as RouterLink } from 'react-router-dom';
 import { Container, Typography, Grid, Stack, Button, Box } from '@mui/material';
+import GroupIcon from '@mui/icons-material/Group';
 import MultiSignPanel from './MultiSignPanel';
 import UpdatePairWeightModal from './UpdatePairWeightModal';
 import RemovePairModal from './RemovePairModal';
@@ -10,6 +12,7 @@ import AddPairModal from './AddPairModal';
 import WithdrawalModal from './WithdrawalModal';
 import { refetchAtom } from '@/store/refetch';
 import InfoCard from './InfoCard';
+import RunwayCard from './RunwayCard';
 
 const AdminPanel: React.FC = () => {
   const [, setRefetch] = useAtom(refetchAtom);
@@ -53,8 +56,14 @@ const AdminPanel: React.FC = () => {
               Withdraw Rewards
             </Button>
           </Stack>
+          <Button component={RouterLink} to="/admin/roles" variant="outlined" startIcon={<GroupIcon />} fullWidth sx={{ mt: 2 }}>
+            Roles and Signers
+          </Button>
         </Grid>
       </Grid>
+      <Box sx={{ mt: 4 }}>
+        <RunwayCard />
+      </Box>
       <Box sx={{ mt: 4 }}>
         <InfoCard />
       </Box>
@@ -1,32 +1,54 @@
 import ModalBox from '@/components/ModalBox';
 import { useContract } from '@/providers/ContractProvider';
-import { Alert, Button, Card, CardActions, CardContent, Modal, Stack, TextField, Typography } from '@mui/material';
+import { Alert, Button, Card, CardActions, CardContent, MenuItem, Modal, Stack, TextField, Typography } from '@mui/material';
 import { ethers } from 'ethers';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 
 interface ChangeSignerModalProps {
   open: boolean;
   onClose: () => void;
+  // Pre-selects the signer being replaced, e.g. from the roles page
+  initialOldSigner?: string;
 }
 
-const ChangeSignerModal: React.FC<ChangeSignerModalProps> = ({ open, onClose }) => {
+// Why a new signer address can't be proposed, or '' when it can
+const newSignerProblem = (address: string, signers: string[]) => {
+  if (!address) return '';
+  if (!ethers.isAddress(address)) return 'Invalid address format';
+  if (address.toLowerCase() === ethers.ZeroAddress) return 'The zero address cannot be a signer';
+  if (signers.some((signer) => signer.toLowerCase() === address.toLowerCase())) return 'This address is already a signer';
+  return '';
+};
+
+const ChangeSignerModal: React.FC<ChangeSignerModalProps> = ({ open, onClose, initialOldSigner = '' }) => {
   const [newSignerAddress, setNewSignerAddress] = useState<string>('');
   const [oldSignerAddress, setOldSignerAddress] = useState<string>('');
+  const [signers, setSigners] = useState<string[]>([]);
   const [error, setError] = useState<string>('');
 
-  const { proposeChangeSigner } = useContract();
+  const { proposeChangeSigner, getSigners } = useContract();
+
+  useEffect(() => {
+    if (!open) return;
+    setOldSignerAddress(initialOldSigner);
+    setNewSignerAddress('');
+    setError('');
+    getSigners().then((signers) => setSigners(Array.from(signers)));
+  }, [open, initialOldSigner]);
+
+  const newSignerError = newSignerProblem(newSignerAddress, signers);
 
   const validateInputs = (): boolean => {
     if (!oldSignerAddress || !newSignerAddress) {
       setError('Please fill in both addresses');
       return false;
     }
-    if (!ethers.isAddress(newSignerAddress)) {
-      setError('Invalid new signer address format');
+    if (!signers.some((signer) => signer.toLowerCase() === oldSignerAddress.toLowerCase())) {
+      setError('The old signer is not in the current signer list');
       return false;
     }
-    if (!ethers.isAddress(oldSignerAddress)) {
-      setError('Invalid old signer address format');
+    if (newSignerError) {
+      setError(newSignerError);
       return false;
     }
     setError('');
@@ -57,21 +79,29 @@ const ChangeSignerModal: React.FC<ChangeSignerModalProps> = ({ open, onClose })
               {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
 
               <TextField
+                select
                 label="Old Signer Address"
-                value={oldSignerAddress}
+                value={signers.some((signer) => signer === oldSignerAddress) ? oldSignerAddress : ''}
                 onChange={(e) => setOldSignerAddress(e.target.value)}
                 variant="outlined"
                 fullWidth
-                helperText="Enter the address of the current signer"
-              />
+                helperText="Select the signer to replace"
+              >
+                {signers.map((signer) => (
+                  <MenuItem key={signer} value={signer} sx={{ fontFamily: 'monospace' }}>
+                    {signer}
+                  </MenuItem>
+                ))}
+              </TextField>
 
               <TextField
                 label="New Signer Address" 
                 value={newSignerAddress}
-                onChange={(e) => setNewSignerAddress(e.target.value)}
+                onChange={(e) => setNewSignerAddress(e.target.value.trim())}
                 variant="outlined"
                 fullWidth
-                helperText="Enter the address of the new signer"
+                error={!!newSignerError}
+                helperText={newSignerError || 'Enter the address of the new signer'}
               />
             </Stack>
           </CardContent>
@@ -83,7 +113,7 @@ const ChangeSignerModal: React.FC<ChangeSignerModalProps> = ({ open, onClose })
               color="warning"
               onClick={handleProposeChangeSigner}
               size="large"
-              disabled={!oldSignerAddress || !newSignerAddress}
+              disabled={!oldSignerAddress || !newSignerAddress || !!newSignerError}
             >
               Propose Signer Change
             </Button>
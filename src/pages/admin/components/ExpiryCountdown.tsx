@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import TimerIcon from '@mui/icons-material/Timer';
+import TimerOffIcon from '@mui/icons-material/TimerOff';
+import { ACTION_EXPIRY_SECONDS } from '@/constants/actions';
+import { formatDuration } from '@/utils';
+
+interface ExpiryCountdownProps {
+  proposedTime: number;
+  // On-chain isActionExpired() result, which wins over the local clock
+  expired?: boolean;
+}
+
+// Under a day left the chip turns to a warning
+const WARNING_SECONDS = 24 * 60 * 60;
+
+const ExpiryCountdown: React.FC<ExpiryCountdownProps> = ({ proposedTime, expired = false }) => {
+  const [now, setNow] = useState(() => Date.now() / 1000);
+  const expiresAt = proposedTime + ACTION_EXPIRY_SECONDS;
+  const remaining = expiresAt - now;
+  const isOver = expired || remaining <= 0;
+  // Tick every second in the final hour, otherwise once a minute
+  const tickMs = remaining < 3600 ? 1000 : 60_000;
+
+  useEffect(() => {
+    if (isOver) return;
+    const timer = setInterval(() => setNow(Date.now() / 1000), tickMs);
+    return () => clearInterval(timer);
+  }, [isOver, tickMs]);
+
+  const expiryDate = new Date(expiresAt * 1000).toLocaleString();
+
+  if (isOver) {
+    return (
+      <Tooltip title={`Expired ${expiryDate}`}>
+        <Chip icon={<TimerOffIcon />} label="Expired" size="small" variant="outlined" />
+      </Tooltip>
+    );
+  }
+
+  return (
+    <Tooltip title={`Expires ${expiryDate}`}>
+      <Chip icon={<TimerIcon />} label={`${formatDuration(remaining)} left`} size="small" variant="outlined" color={remaining < WARNING_SECONDS ? 'warning' : 'default'} />
+    </Tooltip>
+  );
+};
+
+export default ExpiryCountdown;
@@ -1,7 +1,17 @@
 import ModalBox from '@/components/ModalBox';
 import { useContract } from '@/providers/ContractProvider';
-import { Modal, Typography, TextField, Button, CardContent, CardActions, Card, Stack, Alert } from '@mui/material';
-import { useState } from 'react';
+import { Modal, Typography, TextField, Button, CardContent, CardActions, Card, Stack, Alert, Box, useTheme } from '@mui/material';
+import { useEffect, useState } from 'react';
+import { useAtomValue } from 'jotai';
+import { ethers } from 'ethers';
+import useTreasury from '@/hooks/useTreasury';
+import { rewardTokenAtom } from '@/store/rewardToken';
+import { LOW_RUNWAY_DAYS, projectRunway, RunwayProjection } from '@/utils/runway';
+import { parseTokenAmount } from '@/utils/tokenAmount';
+import RunwayChart from './RunwayChart';
+
+const describeRunway = ({ runwayDays, depletionDate }: RunwayProjection) =>
+  runwayDays === null || !depletionDate ? 'never runs out' : `${runwayDays.toFixed(1)} days (until ${depletionDate.toLocaleDateString()})`;
 
 interface HourlyRateModalProps {
   open: boolean;
@@ -12,7 +22,19 @@ const HourlyRateModal: React.FC<HourlyRateModalProps> = ({ open, onClose }) => {
   const [newHourlyRate, setNewHourlyRate] = useState<string>('0');
   const [error, setError] = useState<string>('');
 
+  const theme = useTheme();
   const { proposeSetHourlyRewardRate } = useContract();
+  const rewardToken = useAtomValue(rewardTokenAtom);
+  const { balance, hourlyRate, pendingRewards, refresh } = useTreasury();
+  const decimals = rewardToken.decimals || 18;
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open]);
+
+  const proposedRate = parseTokenAmount(newHourlyRate, decimals);
+  const currentRunway = projectRunway(balance, pendingRewards, hourlyRate);
+  const proposedRunway = proposedRate && proposedRate.value > 0n ? projectRunway(balance, pendingRewards, proposedRate.value) : null;
 
   const validateInput = (): boolean => {
     if (newHourlyRate === '0') {
@@ -61,11 +83,36 @@ const HourlyRateModal: React.FC<HourlyRateModalProps> = ({ open, onClose }) => {
                 onChange={(e) => setNewHourlyRate(e.target.value)}
                 variant="outlined"
                 fullWidth
-                helperText="Enter the new hourly reward rate in LIB tokens"
+                helperText={`Enter the new hourly reward rate in ${rewardToken.symbol || 'LIB'} tokens`}
                 InputProps={{
                   inputProps: { min: 0, step: '0.000001' },
                 }}
               />
+
+              <Box sx={{ bgcolor: 'background.default', p: 2, borderRadius: 1 }}>
+                <Typography variant="body2">
+                  Current rate ({ethers.formatUnits(hourlyRate, decimals)} {rewardToken.symbol}/hour): {describeRunway(currentRunway)}
+                </Typography>
+                {proposedRunway && (
+                  <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                    Proposed rate: {describeRunway(proposedRunway)}
+                  </Typography>
+                )}
+                <Typography variant="caption" color="text.secondary">
+                  Net of {ethers.formatUnits(pendingRewards, decimals)} {rewardToken.symbol} already owed to stakers
+                </Typography>
+                <RunwayChart
+                  available={Number(ethers.formatUnits(currentRunway.available, decimals))}
+                  symbol={rewardToken.symbol}
+                  series={[
+                    { label: 'Current', color: theme.palette.primary.main, runwayDays: currentRunway.runwayDays },
+                    ...(proposedRunway ? [{ label: 'Proposed', color: theme.palette.warning.main, runwayDays: proposedRunway.runwayDays }] : []),
+                  ]}
+                />
+              </Box>
+              {proposedRunway?.runwayDays != null && proposedRunway.runwayDays < LOW_RUNWAY_DAYS && (
+                <Alert severity="warning">At this rate rewards run out in under {LOW_RUNWAY_DAYS} days.</Alert>
+              )}
             </Stack>
           </CardContent>
 
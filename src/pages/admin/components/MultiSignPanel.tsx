@@ -1,5 +1,4 @@
 import { useContract } from '@/providers/ContractProvider';
-import { Action } from '@/types';
 import { truncateAddress } from '@/utils';
 import {
   Box,
@@ -21,6 +20,9 @@ import {
   Checkbox,
   Chip,
   Tooltip,
+  Button,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import { ethers } from 'ethers';
 import { Fragment, useEffect, useState } from 'react';
@@ -32,80 +34,49 @@ import PlayCircleIcon from '@mui/icons-material/PlayCircle';
 import { useAtom } from 'jotai';
 import { refetchAtom } from '@/store/refetch';
 import RefreshButton from '@/components/RefreshButton';
+import useActionHistory from '@/hooks/useActionHistory';
 import BlockIcon from '@mui/icons-material/Block';
-
-const ACTION_TYPE = ['SET_HOURLY_REWARD_RATE', 'UPDATE_PAIR_WEIGHTS', 'ADD_PAIR', 'REMOVE_PAIR', 'CHANGE_SIGNER', 'WITHDRAW_REWARDS'];
+import TimerOffIcon from '@mui/icons-material/TimerOff';
+import CleaningServicesIcon from '@mui/icons-material/CleaningServices';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
+import { Link as RouterLink } from 'react-router-dom';
+import { ACTION_TYPE } from '@/constants/actions';
+import ExpiryCountdown from './ExpiryCountdown';
+import SignerMatrix from './SignerMatrix';
+import { isProposalOpen, signerVote } from '@/utils/proposalStatus';
+import { useAuth } from '@/providers/AuthProvider';
+import ViewListIcon from '@mui/icons-material/ViewList';
+import GridOnIcon from '@mui/icons-material/GridOn';
 
 interface MultiSignPanelProps {}
 
 const MultiSignPanel: React.FC<MultiSignPanelProps> = () => {
   const [actionCounter, setActionCounter] = useState<number>();
   const [requiredApprovals, setRequiredApprovals] = useState<number>();
-  const [proposals, setProposals] = useState<Action[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
   const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set());
   const [hideExecuted, setHideExecuted] = useState<boolean>(true);
+  const [awaitingMine, setAwaitingMine] = useState<boolean>(false);
+  const [view, setView] = useState<'list' | 'matrix'>('list');
+  const [signers, setSigners] = useState<string[]>([]);
+  // Pending proposals the contract reports as past their expiry but not yet marked expired
+  const [expiredIds, setExpiredIds] = useState<Set<number>>(new Set());
   const [refetch, setRefetch] = useAtom(refetchAtom);
-  const { contract, approveAction, executeAction, rejectAction, getActionCounter, getRequiredApprovals, getActions, getActionPairs, getActionWeights, getPairInfo } = useContract();
-  const [names, setNames] = useState<{ [key: string]: string }>({});
+  const { contract, multicall, approveAction, executeAction, rejectAction, getActionCounter, getRequiredApprovals, getSigners, handleExpiredAction, cleanupExpiredActions } = useContract();
+  // The Safe being acted for when one is selected, otherwise the connected wallet
+  const { adminAccount } = useAuth();
+  const { actions: proposals, names, lastIndexedBlock, isSyncing, sync, rebuild } = useActionHistory();
+  // Cached proposals stay on screen while newer blocks are indexed
+  const isLoading = isSyncing && proposals.length === 0;
 
   async function loadContractData() {
-    setIsLoading(true);
     try {
       const counter = Number(await getActionCounter());
       const approvals = await getRequiredApprovals();
-      let tmpProposals: Action[] = [];
-      for (let i = counter; i > Math.max(counter - 100, 0); i--) {
-        const proposal = await getActions(i);
-        const pairs = await getActionPairs(i);
-        const weights = await getActionWeights(i);
-
-        const pairsToFetch = new Set<string>();
-        if (proposal.pairToRemove && proposal.pairToRemove !== ethers.ZeroAddress) {
-          pairsToFetch.add(proposal.pairToRemove);
-        }
-        if (pairs.length > 0) {
-          pairs.forEach((pair) => {
-            if (pair !== ethers.ZeroAddress) {
-              pairsToFetch.add(pair);
-            }
-          });
-        }
-
-        const pairInfos = await Promise.all(Array.from(pairsToFetch).map((pair) => getPairInfo(pair)));
-
-        setNames((prevNames) => ({
-          ...prevNames,
-          ...Object.fromEntries(Array.from(pairsToFetch).map((pair, i) => [pair, pairInfos[i].pairName])),
-        }));
-
-        tmpProposals.push({
-          id: i,
-          actionType: proposal.actionType,
-          newHourlyRewardRate: proposal.newHourlyRewardRate,
-          pairs: pairs.map((pair) => pair.toString()),
-          weights: weights.map((weight) => BigInt(weight)),
-          pairToAdd: proposal.pairToAdd,
-          pairNameToAdd: proposal.pairNameToAdd,
-          platformToAdd: proposal.platformToAdd,
-          weightToAdd: proposal.weightToAdd,
-          pairToRemove: proposal.pairToRemove,
-          recipient: proposal.recipient,
-          withdrawAmount: proposal.withdrawAmount,
-          executed: proposal.executed,
-          expired: proposal.expired,
-          approvals: proposal.approvals,
-          approvedBy: proposal.approvedBy,
-          rejected: proposal.rejected,
-          proposedTime: proposal.proposedTime,
-        });
-      }
-      setProposals(tmpProposals);
       setActionCounter(counter);
       setRequiredApprovals(approvals);
-    } catch (error) {
+      setSigners(Array.from(await getSigners()));
+      await sync();
     } finally {
-      setIsLoading(false);
       setRefetch(false);
     }
   }
@@ -114,6 +85,19 @@ const MultiSignPanel: React.FC<MultiSignPanelProps> = () => {
     loadContractData();
   }, [contract]);
 
+  // isActionExpired() is the source of truth; the countdown only estimates it from proposedTime
+  useEffect(() => {
+    if (!contract) return;
+    const pendingIds = proposals.filter((p) => !p.executed && !p.rejected && !p.expired).map((p) => p.id);
+    if (pendingIds.length === 0) {
+      setExpiredIds(new Set());
+      return;
+    }
+    multicall(pendingIds.map((id) => ({ contract, method: 'isActionExpired', args: [id] }))).then((results) =>
+      setExpiredIds(new Set(pendingIds.filter((_, index) => results[index].success && results[index].value === true)))
+    );
+  }, [contract, proposals]);
+
   useEffect(() => {
     if (refetch) {
       loadContractData();
@@ -136,6 +120,16 @@ const MultiSignPanel: React.FC<MultiSignPanelProps> = () => {
     setRefetch(true);
   };
 
+  const handleMarkExpired = async (id: number) => {
+    await handleExpiredAction(id);
+    setRefetch(true);
+  };
+
+  const handleCleanupExpired = async () => {
+    await cleanupExpiredActions();
+    setRefetch(true);
+  };
+
   const toggleRow = (id: number) => {
     const newExpandedRows = new Set(expandedRows);
     if (newExpandedRows.has(id)) {
@@ -146,7 +140,10 @@ const MultiSignPanel: React.FC<MultiSignPanelProps> = () => {
     setExpandedRows(newExpandedRows);
   };
 
-  const filteredProposals = hideExecuted ? proposals.filter((p) => !p.executed && !p.rejected) : proposals;
+  const isSigner = !!adminAccount && signers.some((address) => address.toLowerCase() === adminAccount.toLowerCase());
+  const filteredProposals = proposals
+    .filter((p) => !hideExecuted || (!p.executed && !p.rejected && !p.expired))
+    .filter((p) => !awaitingMine || (!!adminAccount && isProposalOpen(p, expiredIds) && signerVote(p, adminAccount, true) === 'pending'));
 
   return (
     <Card elevation={3}>
@@ -155,12 +152,49 @@ const MultiSignPanel: React.FC<MultiSignPanelProps> = () => {
           <Typography variant="h5" sx={{ fontWeight: 'bold' }}>
             Proposals Panel
           </Typography>
-          <RefreshButton onClick={() => setRefetch(true)} loading={isLoading} />
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {lastIndexedBlock !== null && lastIndexedBlock >= 0 && (
+              <Typography variant="caption" color="text.secondary">
+                Indexed to block {lastIndexedBlock}
+              </Typography>
+            )}
+            <Tooltip title={expiredIds.size > 0 ? `Mark ${expiredIds.size} expired proposal${expiredIds.size > 1 ? 's' : ''} as expired on chain` : 'No expired proposals to clean up'}>
+              <span>
+                <Button size="small" color="warning" startIcon={<CleaningServicesIcon />} onClick={handleCleanupExpired} disabled={expiredIds.size === 0}>
+                  Clean up expired
+                </Button>
+              </span>
+            </Tooltip>
+            <Tooltip title="Rebuild proposal history from contract events">
+              <span>
+                <Button size="small" onClick={rebuild} disabled={isSyncing}>
+                  Rebuild
+                </Button>
+              </span>
+            </Tooltip>
+            <RefreshButton onClick={() => setRefetch(true)} loading={isSyncing} />
+          </Box>
         </Box>
 
         <Box sx={{ mb: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center', bgcolor: 'background.paper', p: 2, borderRadius: 1 }}>
-          <FormControlLabel control={<Checkbox checked={hideExecuted} onChange={(e) => setHideExecuted(e.target.checked)} color="primary" />} label="Hide executed transactions" />
-          <Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap' }}>
+            <FormControlLabel control={<Checkbox checked={hideExecuted} onChange={(e) => setHideExecuted(e.target.checked)} color="primary" />} label="Hide executed, rejected and expired" />
+            <Tooltip title={isSigner ? 'Open proposals you have neither approved nor rejected' : 'The acting account is not a signer'}>
+              <FormControlLabel
+                control={<Checkbox checked={awaitingMine} onChange={(e) => setAwaitingMine(e.target.checked)} color="primary" disabled={!isSigner} />}
+                label="Awaiting my signature"
+              />
+            </Tooltip>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <ToggleButtonGroup value={view} exclusive size="small" onChange={(_, value) => value && setView(value)} sx={{ mr: 2 }}>
+              <ToggleButton value="list" aria-label="List view">
+                <ViewListIcon fontSize="small" />
+              </ToggleButton>
+              <ToggleButton value="matrix" aria-label="Signer matrix">
+                <GridOnIcon fontSize="small" />
+              </ToggleButton>
+            </ToggleButtonGroup>
             <Chip label={`Total Proposals: ${actionCounter?.toString() || 0}`} color="primary" variant="outlined" sx={{ mr: 1 }} />
             <Chip label={`Required Approvals: ${requiredApprovals?.toString() || 0}`} color="secondary" variant="outlined" />
           </Box>
@@ -173,9 +207,11 @@ const MultiSignPanel: React.FC<MultiSignPanelProps> = () => {
         ) : filteredProposals.length === 0 ? (
           <Box sx={{ textAlign: 'center', p: 4, bgcolor: 'background.paper', borderRadius: 1 }}>
             <Typography variant="h6" color="text.secondary">
-              No proposals available.
+              {awaitingMine ? 'No proposals are awaiting your signature.' : 'No proposals available.'}
             </Typography>
           </Box>
+        ) : view === 'matrix' ? (
+          <SignerMatrix proposals={filteredProposals} signers={signers} currentAddress={adminAccount || undefined} requiredApprovals={requiredApprovals} expiredIds={expiredIds} />
         ) : (
           <TableContainer component={Paper} elevation={2}>
             <Table>
@@ -185,15 +221,18 @@ const MultiSignPanel: React.FC<MultiSignPanelProps> = () => {
                   <TableCell sx={{ fontWeight: 'bold', textAlign: 'center' }}>ID</TableCell>
                   <TableCell sx={{ fontWeight: 'bold', textAlign: 'center' }}>Action Type</TableCell>
                   <TableCell sx={{ fontWeight: 'bold', textAlign: 'center' }}>Approvals</TableCell>
+                  <TableCell sx={{ fontWeight: 'bold', textAlign: 'center' }}>Proposed</TableCell>
                   <TableCell sx={{ fontWeight: 'bold', textAlign: 'center' }}>Status</TableCell>
                   <TableCell sx={{ fontWeight: 'bold', textAlign: 'center' }}>Actions</TableCell>
                 </TableRow>
               </TableHead>
               <TableBody>
-                {filteredProposals.map((proposal, index) => {
+                {filteredProposals.map((proposal) => {
                   const actionId = proposal.id;
                   const isExecuted = proposal.executed;
-                  const canExecute = !isExecuted && requiredApprovals && proposal.approvals && proposal.approvals >= requiredApprovals;
+                  const isExpired = proposal.expired || expiredIds.has(actionId);
+                  const isPending = isProposalOpen(proposal, expiredIds);
+                  const canExecute = isPending && requiredApprovals && proposal.approvals && proposal.approvals >= requiredApprovals;
                   const isExpanded = expandedRows.has(actionId);
 
                   return (
@@ -210,7 +249,9 @@ const MultiSignPanel: React.FC<MultiSignPanelProps> = () => {
                           </IconButton>
                         </TableCell>
                         <TableCell sx={{ textAlign: 'center' }}>
-                          <Chip label={actionId} size="small" />
+                          <Tooltip title="Open proposal details">
+                            <Chip label={actionId} size="small" component={RouterLink} to={`/admin/proposals/${actionId}`} clickable icon={<OpenInNewIcon />} />
+                          </Tooltip>
                         </TableCell>
                         <TableCell sx={{ textAlign: 'center' }}>
                           <Chip label={ACTION_TYPE[proposal.actionType]} color="primary" variant="outlined" size="small" />
@@ -218,18 +259,31 @@ const MultiSignPanel: React.FC<MultiSignPanelProps> = () => {
                         <TableCell sx={{ textAlign: 'center' }}>
                           <Chip label={`${proposal.approvals?.toString() || 0} / ${requiredApprovals?.toString() || 0}`} color={canExecute ? 'success' : 'default'} size="small" />
                         </TableCell>
+                        <TableCell sx={{ textAlign: 'center' }}>
+                          <Typography variant="body2">{proposal.proposedTime ? new Date(proposal.proposedTime * 1000).toLocaleString() : '-'}</Typography>
+                          {isPending && proposal.proposedTime > 0 && <ExpiryCountdown proposedTime={proposal.proposedTime} />}
+                        </TableCell>
                         <TableCell sx={{ textAlign: 'center' }}>
                           {isExecuted ? (
                             <Chip icon={<CheckCircleIcon />} label="Executed" color="success" size="small" />
                           ) : proposal.rejected ? (
                             <Chip icon={<BlockIcon />} label="Rejected" color="error" size="small" />
+                          ) : isExpired ? (
+                            <Chip icon={<TimerOffIcon />} label="Expired" size="small" />
                           ) : (
                             <Chip icon={<CancelIcon />} label="Pending" color="warning" size="small" />
                           )}
                         </TableCell>
                         <TableCell sx={{ textAlign: 'center' }}>
                           <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>
-                            {!isExecuted && !proposal.rejected && (
+                            {!proposal.expired && expiredIds.has(actionId) && (
+                              <Tooltip title="Record this proposal as expired on chain">
+                                <Button size="small" variant="outlined" color="warning" startIcon={<TimerOffIcon />} onClick={() => handleMarkExpired(actionId)}>
+                                  Mark expired
+                                </Button>
+                              </Tooltip>
+                            )}
+                            {isPending && (
                               <>
                                 <Tooltip title="Approve Action">
                                   <IconButton color="primary" onClick={() => handleApproveAction(actionId)} size="small">
@@ -254,7 +308,7 @@ const MultiSignPanel: React.FC<MultiSignPanelProps> = () => {
                         </TableCell>
                       </TableRow>
                       <TableRow>
-                        <TableCell style={{ paddingBottom: 0, paddingTop: 0 }} colSpan={6}>
+                        <TableCell style={{ paddingBottom: 0, paddingTop: 0 }} colSpan={7}>
                           <Collapse in={isExpanded} timeout="auto" unmountOnExit>
                             <Box sx={{ m: 3, bgcolor: 'background.paper', p: 2, borderRadius: 1 }}>
                               <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 'bold', color: 'primary.main' }}>
@@ -319,7 +373,7 @@ const MultiSignPanel: React.FC<MultiSignPanelProps> = () => {
                                     </Typography>
                                   </Grid>
                                 )}
-                                {proposal.pairs?.length > 0 && proposal.actionType !== 1 && (
+                                {proposal.pairs?.length > 0 && (
                                   <Grid item xs={12}>
                                     <Box component="pre" sx={{ mt: 1, fontFamily: 'monospace', whiteSpace: 'pre-wrap' }}>
                                       {proposal.pairs.map((pair, idx) => `${pair}\t${names[pair]}\t${proposal.weights?.[idx] ? ethers.formatEther(proposal.weights[idx].toString()) : ''}\n`).join('')}
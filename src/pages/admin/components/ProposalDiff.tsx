@@ -0,0 +1,204 @@
+import { ethers } from 'ethers';
+import { Box, Chip, Grid, Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Typography } from '@mui/material';
+import ArrowForwardIcon from '@mui/icons-material/ArrowForward';
+import { ACTION_TYPES } from '@/constants/actions';
+import { Action, SCPairData, TokenInfo } from '@/types';
+import { truncateAddress } from '@/utils';
+import { diffPairWeights, EmissionSnapshot, emissionsFor, WeightDiffRow } from '@/utils/proposalDiff';
+
+interface ProposalDiffProps {
+  action: Action;
+  pairs: SCPairData[];
+  names: Record<string, string>;
+  hourlyRate: bigint;
+  rewardBalance: bigint;
+  signers: string[];
+  rewardToken: TokenInfo;
+}
+
+const CHANGE_COLORS: Record<WeightDiffRow['change'], 'success' | 'error' | 'info' | 'default'> = {
+  added: 'success',
+  removed: 'error',
+  changed: 'info',
+  unchanged: 'default',
+};
+
+const formatNumber = (value: number, digits = 2) => value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+const formatRunway = (days: number | null) => (days === null ? 'No emissions' : days >= 365 ? `${formatNumber(days / 365, 1)} years` : `${formatNumber(days, 1)} days`);
+
+const formatDelta = (before: number, after: number, digits = 2) => {
+  const delta = after - before;
+  return `${delta >= 0 ? '+' : ''}${formatNumber(delta, digits)}`;
+};
+
+const BeforeAfter: React.FC<{ label: string; before: string; after: string; delta?: string }> = ({ label, before, after, delta }) => (
+  <TableRow>
+    <TableCell sx={{ fontWeight: 'bold' }}>{label}</TableCell>
+    <TableCell align="right">{before}</TableCell>
+    <TableCell align="center">
+      <ArrowForwardIcon fontSize="small" color="action" />
+    </TableCell>
+    <TableCell align="right">{after}</TableCell>
+    <TableCell align="right" sx={{ color: 'text.secondary' }}>
+      {delta}
+    </TableCell>
+  </TableRow>
+);
+
+const BeforeAfterTable: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <TableContainer component={Paper} variant="outlined">
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell />
+          <TableCell align="right">Current</TableCell>
+          <TableCell />
+          <TableCell align="right">Proposed</TableCell>
+          <TableCell align="right">Change</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>{children}</TableBody>
+    </Table>
+  </TableContainer>
+);
+
+const EmissionRows: React.FC<{ before: EmissionSnapshot; after: EmissionSnapshot; symbol: string }> = ({ before, after, symbol }) => (
+  <>
+    <BeforeAfter label="Hourly emission" before={`${formatNumber(before.hourly, 4)} ${symbol}`} after={`${formatNumber(after.hourly, 4)} ${symbol}`} delta={formatDelta(before.hourly, after.hourly, 4)} />
+    <BeforeAfter label="Daily emission" before={`${formatNumber(before.daily)} ${symbol}`} after={`${formatNumber(after.daily)} ${symbol}`} delta={formatDelta(before.daily, after.daily)} />
+    <BeforeAfter label="Monthly emission" before={`${formatNumber(before.monthly)} ${symbol}`} after={`${formatNumber(after.monthly)} ${symbol}`} delta={formatDelta(before.monthly, after.monthly)} />
+    <BeforeAfter
+      label="Runway"
+      before={formatRunway(before.runwayDays)}
+      after={formatRunway(after.runwayDays)}
+      delta={before.runwayDays !== null && after.runwayDays !== null ? `${formatDelta(before.runwayDays, after.runwayDays, 1)} days` : undefined}
+    />
+  </>
+);
+
+const WeightDiffTable: React.FC<{ rows: WeightDiffRow[] }> = ({ rows }) => (
+  <TableContainer component={Paper} variant="outlined">
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Pair</TableCell>
+          <TableCell align="right">Current weight</TableCell>
+          <TableCell align="right">Proposed weight</TableCell>
+          <TableCell align="right">Current share</TableCell>
+          <TableCell align="right">Proposed share</TableCell>
+          <TableCell align="center">Change</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.lpToken} sx={{ opacity: row.change === 'unchanged' ? 0.7 : 1 }}>
+            <TableCell>
+              <Typography sx={{ fontWeight: 'bold' }}>{row.pairName || truncateAddress(row.lpToken)}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                {truncateAddress(row.lpToken)}
+              </Typography>
+            </TableCell>
+            <TableCell align="right">{ethers.formatEther(row.currentWeight)}</TableCell>
+            <TableCell align="right">{ethers.formatEther(row.proposedWeight)}</TableCell>
+            <TableCell align="right">{row.currentShare.toFixed(2)}%</TableCell>
+            <TableCell align="right">
+              {row.proposedShare.toFixed(2)}% <Typography component="span" variant="caption" color="text.secondary">({formatDelta(row.currentShare, row.proposedShare)} pp)</Typography>
+            </TableCell>
+            <TableCell align="center">
+              <Chip label={row.change} size="small" color={CHANGE_COLORS[row.change]} variant={row.change === 'unchanged' ? 'outlined' : 'filled'} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </TableContainer>
+);
+
+/** Before/after view of what executing a proposal would change, against the contract's current state. */
+const ProposalDiff: React.FC<ProposalDiffProps> = ({ action, pairs, names, hourlyRate, rewardBalance, signers, rewardToken }) => {
+  const symbol = rewardToken.symbol;
+  const decimals = rewardToken.decimals || 18;
+
+  switch (action.actionType) {
+    case ACTION_TYPES.SET_HOURLY_REWARD_RATE:
+      return (
+        <BeforeAfterTable>
+          <EmissionRows before={emissionsFor(hourlyRate, rewardBalance, decimals)} after={emissionsFor(action.newHourlyRewardRate, rewardBalance, decimals)} symbol={symbol} />
+        </BeforeAfterTable>
+      );
+
+    case ACTION_TYPES.UPDATE_PAIR_WEIGHTS:
+    case ACTION_TYPES.ADD_PAIR:
+    case ACTION_TYPES.REMOVE_PAIR:
+      return (
+        <Box>
+          {action.actionType === ACTION_TYPES.ADD_PAIR && (
+            <Typography variant="body2" sx={{ mb: 2 }}>
+              Adds <strong>{action.pairNameToAdd}</strong> on {action.platformToAdd} ({truncateAddress(action.pairToAdd)}).
+            </Typography>
+          )}
+          <WeightDiffTable rows={diffPairWeights(pairs, action, names)} />
+        </Box>
+      );
+
+    case ACTION_TYPES.CHANGE_SIGNER: {
+      // The contract reuses pairToAdd / pairToRemove for the outgoing and incoming signer
+      const proposedSigners = signers.map((signer) => (signer.toLowerCase() === action.pairToAdd.toLowerCase() ? action.pairToRemove : signer));
+      return (
+        <Grid container spacing={2}>
+          {[
+            { title: 'Current signers', list: signers, highlight: action.pairToAdd, color: 'error.main' },
+            { title: 'Proposed signers', list: proposedSigners, highlight: action.pairToRemove, color: 'success.main' },
+          ].map(({ title, list, highlight, color }) => (
+            <Grid item xs={12} md={6} key={title}>
+              <Paper variant="outlined" sx={{ p: 2 }}>
+                <Typography variant="subtitle1" sx={{ fontWeight: 'bold', mb: 1 }}>
+                  {title}
+                </Typography>
+                {list.map((signer) => (
+                  <Typography
+                    key={signer}
+                    variant="body2"
+                    sx={{ fontFamily: 'monospace', color: signer.toLowerCase() === highlight.toLowerCase() ? color : 'text.primary' }}
+                  >
+                    {signer}
+                  </Typography>
+                ))}
+              </Paper>
+            </Grid>
+          ))}
+        </Grid>
+      );
+    }
+
+    case ACTION_TYPES.WITHDRAW_REWARDS: {
+      const remaining = rewardBalance > action.withdrawAmount ? rewardBalance - action.withdrawAmount : 0n;
+      const before = emissionsFor(hourlyRate, rewardBalance, decimals);
+      const after = emissionsFor(hourlyRate, remaining, decimals);
+      const balanceBefore = Number(ethers.formatUnits(rewardBalance, decimals));
+      const balanceAfter = Number(ethers.formatUnits(remaining, decimals));
+      return (
+        <Box>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            Sends {formatNumber(Number(ethers.formatUnits(action.withdrawAmount, decimals)))} {symbol} to {truncateAddress(action.recipient)}.
+          </Typography>
+          <BeforeAfterTable>
+            <BeforeAfter label="Reward balance" before={`${formatNumber(balanceBefore)} ${symbol}`} after={`${formatNumber(balanceAfter)} ${symbol}`} delta={formatDelta(balanceBefore, balanceAfter)} />
+            <BeforeAfter
+              label="Runway"
+              before={formatRunway(before.runwayDays)}
+              after={formatRunway(after.runwayDays)}
+              delta={before.runwayDays !== null && after.runwayDays !== null ? `${formatDelta(before.runwayDays, after.runwayDays, 1)} days` : undefined}
+            />
+          </BeforeAfterTable>
+        </Box>
+      );
+    }
+
+    default:
+      return <Typography color="text.secondary">No preview available for this action type.</Typography>;
+  }
+};
+
+export default ProposalDiff;
@@ -0,0 +1,98 @@
+import { useEffect } from 'react';
+import { useAtom, useAtomValue } from 'jotai';
+import { ethers } from 'ethers';
+import { Alert, Box, Card, CardContent, CircularProgress, Grid, Typography, useTheme } from '@mui/material';
+import SavingsIcon from '@mui/icons-material/Savings';
+import { useContract } from '@/providers/ContractProvider';
+import useTreasury from '@/hooks/useTreasury';
+import { rewardTokenAtom } from '@/store/rewardToken';
+import { refetchAtom } from '@/store/refetch';
+import { LOW_RUNWAY_DAYS, projectRunway } from '@/utils/runway';
+import { formatTokenAmount, toTokenAmount } from '@/utils/tokenAmount';
+import RunwayChart from './RunwayChart';
+
+const Metric: React.FC<{ label: string; value: string; caption?: string; color?: string }> = ({ label, value, caption, color }) => (
+  <Grid item xs={12} sm={6} md={4}>
+    <Typography variant="subtitle2" color="text.secondary">
+      {label}
+    </Typography>
+    <Typography variant="h6" sx={{ color }}>
+      {value}
+    </Typography>
+    {caption && (
+      <Typography variant="caption" color="text.secondary">
+        {caption}
+      </Typography>
+    )}
+  </Grid>
+);
+
+/** Treasury view: how long the reward balance lasts at the current hourly rate, net of rewards already owed. */
+const RunwayCard: React.FC = () => {
+  const theme = useTheme();
+  const { contract, rewardTokenContract } = useContract();
+  const rewardToken = useAtomValue(rewardTokenAtom);
+  const [refetch] = useAtom(refetchAtom);
+  const { balance, hourlyRate, pendingRewards, stakerCount, isLoading, refresh } = useTreasury();
+  const decimals = rewardToken.decimals || 18;
+  const symbol = rewardToken.symbol;
+  const format = (value: bigint) => `${formatTokenAmount(toTokenAmount(value, decimals), 2)} ${symbol}`;
+
+  useEffect(() => {
+    refresh();
+  }, [contract, rewardTokenContract]);
+
+  // InfoCard clears the flag, so only react to it being raised
+  useEffect(() => {
+    if (refetch) refresh();
+  }, [refetch]);
+
+  const runway = projectRunway(balance, pendingRewards, hourlyRate);
+  const isLow = runway.runwayDays !== null && runway.runwayDays < LOW_RUNWAY_DAYS;
+
+  return (
+    <Card elevation={3}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 3 }}>
+          <SavingsIcon color="primary" />
+          <Typography variant="h5" sx={{ fontWeight: 'bold', color: 'primary.main' }}>
+            Reward Runway
+          </Typography>
+        </Box>
+
+        {isLoading && balance === 0n ? (
+          <Box sx={{ textAlign: 'center', mt: 4, mb: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            {isLow && (
+              <Alert severity="warning" sx={{ mb: 3 }}>
+                Rewards run out in under {LOW_RUNWAY_DAYS} days at the current rate. Top up the contract or propose a lower hourly rate.
+              </Alert>
+            )}
+            <Grid container spacing={3} sx={{ mb: 3 }}>
+              <Metric label="Reward balance" value={format(balance)} />
+              <Metric label="Owed to stakers" value={format(pendingRewards)} caption={`Unclaimed by ${stakerCount} staker${stakerCount === 1 ? '' : 's'}`} />
+              <Metric label="Available for emissions" value={format(runway.available)} />
+              <Metric label="Daily emission" value={format(runway.dailyEmission)} caption={`${ethers.formatUnits(hourlyRate, decimals)} ${symbol}/hour`} />
+              <Metric
+                label="Runway"
+                value={runway.runwayDays === null ? 'No emissions' : `${runway.runwayDays.toFixed(1)} days`}
+                color={isLow ? 'warning.main' : undefined}
+              />
+              <Metric label="Projected depletion" value={runway.depletionDate ? runway.depletionDate.toLocaleDateString() : '-'} />
+            </Grid>
+            <RunwayChart
+              available={Number(ethers.formatUnits(runway.available, decimals))}
+              symbol={symbol}
+              series={[{ label: 'Current rate', color: theme.palette.primary.main, runwayDays: runway.runwayDays }]}
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RunwayCard;
@@ -0,0 +1,73 @@
+import { Box, Typography, useTheme } from '@mui/material';
+
+export interface RunwaySeries {
+  label: string;
+  color: string;
+  runwayDays: number | null;
+}
+
+interface RunwayChartProps {
+  // Starting balance, already in display units
+  available: number;
+  symbol: string;
+  series: RunwaySeries[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 16 };
+// Non-emitting series are drawn flat across a year
+const FLAT_HORIZON_DAYS = 365;
+
+const formatDate = (days: number) => new Date(Date.now() + days * 86_400_000).toLocaleDateString();
+
+/** Projected reward balance over time for one or more hourly rates, each falling linearly to zero on its depletion date. */
+const RunwayChart: React.FC<RunwayChartProps> = ({ available, symbol, series }) => {
+  const theme = useTheme();
+  const horizon = Math.max(...series.map((line) => line.runwayDays ?? FLAT_HORIZON_DAYS), 1);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (days: number) => PADDING.left + (days / horizon) * plotWidth;
+  const top = PADDING.top;
+  const bottom = PADDING.top + plotHeight;
+
+  return (
+    <Box>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" aria-label="Projected reward balance">
+        <line x1={x(0)} y1={bottom} x2={x(horizon)} y2={bottom} stroke={theme.palette.divider} />
+        <line x1={x(0)} y1={top} x2={x(0)} y2={bottom} stroke={theme.palette.divider} />
+        {series.map((line) =>
+          line.runwayDays === null ? (
+            <line key={line.label} x1={x(0)} y1={top} x2={x(horizon)} y2={top} stroke={line.color} strokeWidth={2} strokeDasharray="4 4" />
+          ) : (
+            <g key={line.label}>
+              <line x1={x(0)} y1={top} x2={x(line.runwayDays)} y2={bottom} stroke={line.color} strokeWidth={2} />
+              <circle cx={x(line.runwayDays)} cy={bottom} r={4} fill={line.color} />
+            </g>
+          )
+        )}
+        <text x={x(0)} y={HEIGHT - 8} fontSize={12} fill={theme.palette.text.secondary}>
+          Today
+        </text>
+        <text x={x(horizon)} y={HEIGHT - 8} fontSize={12} textAnchor="end" fill={theme.palette.text.secondary}>
+          {formatDate(horizon)}
+        </text>
+        <text x={x(0) + 6} y={top + 12} fontSize={12} fill={theme.palette.text.secondary}>
+          {available.toLocaleString(undefined, { maximumFractionDigits: 2 })} {symbol}
+        </text>
+      </svg>
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mt: 1 }}>
+        {series.map((line) => (
+          <Box key={line.label} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Box sx={{ width: 12, height: 12, borderRadius: '50%', bgcolor: line.color }} />
+            <Typography variant="caption">
+              {line.label}: {line.runwayDays === null ? 'never runs out' : `empty ${formatDate(line.runwayDays)}`}
+            </Typography>
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+export default RunwayChart;
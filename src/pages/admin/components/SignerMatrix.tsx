@@ -0,0 +1,87 @@
+import { Box, Chip, Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Tooltip } from '@mui/material';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import BlockIcon from '@mui/icons-material/Block';
+import HourglassEmptyIcon from '@mui/icons-material/HourglassEmpty';
+import RemoveIcon from '@mui/icons-material/Remove';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
+import { Link as RouterLink } from 'react-router-dom';
+import { ACTION_TYPE } from '@/constants/actions';
+import { Action } from '@/types';
+import { sameAddress, truncateAddress } from '@/utils';
+import { isProposalOpen, SignerVote, signerVote } from '@/utils/proposalStatus';
+
+interface SignerMatrixProps {
+  proposals: Action[];
+  signers: string[];
+  currentAddress?: string;
+  requiredApprovals?: number;
+  // Proposals the contract already reports as expired, even if not yet marked on chain
+  expiredIds: Set<number>;
+}
+
+const VOTE_CELLS: Record<SignerVote, { icon: React.ReactElement; label: string }> = {
+  approved: { icon: <CheckCircleIcon color="success" fontSize="small" />, label: 'Approved' },
+  rejected: { icon: <BlockIcon color="error" fontSize="small" />, label: 'Rejected' },
+  pending: { icon: <HourglassEmptyIcon color="warning" fontSize="small" />, label: 'Awaiting signature' },
+  none: { icon: <RemoveIcon color="disabled" fontSize="small" />, label: 'Did not vote' },
+};
+
+/** Proposals as rows and current signers as columns, showing each signer's vote. */
+const SignerMatrix: React.FC<SignerMatrixProps> = ({ proposals, signers, currentAddress, requiredApprovals, expiredIds }) => {
+  const highlight = { bgcolor: 'action.selected' };
+
+  return (
+    <TableContainer component={Paper} elevation={2}>
+      <Table size="small">
+        <TableHead>
+          <TableRow sx={{ bgcolor: 'background.default' }}>
+            <TableCell sx={{ fontWeight: 'bold', textAlign: 'center' }}>ID</TableCell>
+            <TableCell sx={{ fontWeight: 'bold', textAlign: 'center' }}>Action Type</TableCell>
+            <TableCell sx={{ fontWeight: 'bold', textAlign: 'center' }}>Approvals</TableCell>
+            {signers.map((signer) => {
+              const isMe = sameAddress(signer, currentAddress);
+              return (
+                <TableCell key={signer} sx={{ fontWeight: 'bold', textAlign: 'center', ...(isMe ? highlight : {}) }}>
+                  <Tooltip title={signer}>
+                    <Box component="span" sx={{ fontFamily: 'monospace' }}>
+                      {truncateAddress(signer)}
+                    </Box>
+                  </Tooltip>
+                  {isMe && <Chip label="You" size="small" color="primary" sx={{ ml: 1 }} />}
+                </TableCell>
+              );
+            })}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {proposals.map((proposal) => {
+            const isOpen = isProposalOpen(proposal, expiredIds);
+            return (
+              <TableRow key={proposal.id} sx={{ '&:hover': { bgcolor: 'action.hover' }, opacity: isOpen ? 1 : 0.6 }}>
+                <TableCell sx={{ textAlign: 'center' }}>
+                  <Chip label={proposal.id} size="small" component={RouterLink} to={`/admin/proposals/${proposal.id}`} clickable icon={<OpenInNewIcon />} />
+                </TableCell>
+                <TableCell sx={{ textAlign: 'center' }}>
+                  <Chip label={ACTION_TYPE[proposal.actionType]} color="primary" variant="outlined" size="small" />
+                </TableCell>
+                <TableCell sx={{ textAlign: 'center' }}>
+                  {proposal.approvals || 0} / {requiredApprovals || 0}
+                </TableCell>
+                {signers.map((signer) => {
+                  const { icon, label } = VOTE_CELLS[signerVote(proposal, signer, isOpen)];
+                  return (
+                    <TableCell key={signer} sx={{ textAlign: 'center', ...(sameAddress(signer, currentAddress) ? highlight : {}) }}>
+                      <Tooltip title={label}>{icon}</Tooltip>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default SignerMatrix;
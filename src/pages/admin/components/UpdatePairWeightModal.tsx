@@ -1,10 +1,13 @@
 import ModalBox from '@/components/ModalBox';
 import { useContract } from '@/providers/ContractProvider';
 import { refetchAtom } from '@/store/refetch';
-import { Alert, Box, Button, Card, CardActions, CardContent, Modal, Stack, TextField, Typography, MenuItem } from '@mui/material';
+import { rewardTokenAtom } from '@/store/rewardToken';
+import { SCPairData } from '@/types';
+import { Alert, Box, Button, Card, CardActions, CardContent, Modal, Stack, TextField, Typography, MenuItem, ToggleButton, ToggleButtonGroup } from '@mui/material';
 import { ethers } from 'ethers';
-import { useAtom } from 'jotai';
+import { useAtom, useAtomValue } from 'jotai';
 import { useEffect, useState } from 'react';
+import WeightAllocationEditor from './WeightAllocationEditor';
 
 interface UpdatePairWeightModalProps {
   open: boolean;
@@ -17,9 +20,14 @@ const UpdatePairWeightModal: React.FC<UpdatePairWeightModalProps> = ({ open, onC
   const [maxWeight, setMaxWeight] = useState<number>();
   const [error, setError] = useState<string>('');
   const [availablePairs, setAvailablePairs] = useState<{ address: string; pairName: string; platform: string; weight: string }[]>([]);
+  const [activePairs, setActivePairs] = useState<SCPairData[]>([]);
+  const [hourlyRate, setHourlyRate] = useState<bigint>(0n);
+  const [totalWeight, setTotalWeight] = useState<bigint>(0n);
+  const [mode, setMode] = useState<'allocation' | 'weights'>('allocation');
 
-  const { proposeUpdatePairWeights, getMaxWeight, getPairs } = useContract();
+  const { proposeUpdatePairWeights, getMaxWeight, getPairs, getHourlyRewardRate, getTotalWeight } = useContract();
   const [refetch, setRefetch] = useAtom(refetchAtom);
+  const rewardToken = useAtomValue(rewardTokenAtom);
 
   async function loadContractData() {
     const maxWeight = await getMaxWeight();
@@ -32,8 +40,15 @@ const UpdatePairWeightModal: React.FC<UpdatePairWeightModalProps> = ({ open, onC
       weight: ethers.formatUnits(pair.weight, 18),
     }));
     setAvailablePairs(pairsWithWeights);
+    setActivePairs(pairs.filter((pair) => pair.isActive));
+    setHourlyRate(await getHourlyRewardRate());
+    setTotalWeight(await getTotalWeight());
   }
 
+  useEffect(() => {
+    if (open) loadContractData();
+  }, [open]);
+
   useEffect(() => {
     if (refetch) {
       loadContractData();
@@ -51,6 +66,15 @@ const UpdatePairWeightModal: React.FC<UpdatePairWeightModalProps> = ({ open, onC
     setUpdatePairWeights(updatePairWeights.filter((_, i) => i !== index));
   };
 
+  const handleProposeAllocation = async (lpTokens: string[], weights: string[]) => {
+    try {
+      await proposeUpdatePairWeights(lpTokens, weights);
+      onClose();
+    } catch (err) {
+      setError('Failed to propose weight updates. Please try again.');
+    }
+  };
+
   const handleProposeUpdateWeights = async () => {
     // Validate addresses
     const validAddresses = updatePairAddresses.every((addr) => ethers.isAddress(addr));
@@ -89,79 +113,92 @@ const UpdatePairWeightModal: React.FC<UpdatePairWeightModalProps> = ({ open, onC
       <ModalBox>
         <Card sx={{ minWidth: 600 }}>
           <CardContent>
-            <Typography variant="h5" gutterBottom sx={{ mb: 3 }}>
-              Update Pair Weights
-            </Typography>
-
-            <Stack spacing={3}>
-              {error && <Alert severity="error">{error}</Alert>}
-
-              {updatePairAddresses.map((address, index) => (
-                <Box key={index} sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
-                  <TextField
-                    select
-                    fullWidth
-                    label="LP Token Address"
-                    value={address}
-                    onChange={(e) => {
-                      const newAddresses = [...updatePairAddresses];
-                      newAddresses[index] = e.target.value;
-                      const selectedPair = availablePairs.find((pair) => pair.address === e.target.value);
-                      const newWeights = [...updatePairWeights];
-                      newWeights[index] = selectedPair ? selectedPair.weight : '';
-                      setUpdatePairAddresses(newAddresses);
-                      setUpdatePairWeights(newWeights);
-                    }}
-                    variant="outlined"
-                    helperText="Select the LP token address"
-                  >
-                    <MenuItem value="">Select an address</MenuItem>
-                    {availablePairs
-                      .filter((pair) => !updatePairAddresses.includes(pair.address) || pair.address === address)
-                      .map((pair) => (
-                        <MenuItem key={pair.address} value={pair.address}>
-                          {pair.pairName} ({pair.platform})
-                        </MenuItem>
-                      ))}
-                  </TextField>
-                  <TextField
-                    type="number"
-                    label="Weight"
-                    sx={{ width: '200px' }}
-                    value={updatePairWeights[index]}
-                    onChange={(e) => {
-                      const newWeights = [...updatePairWeights];
-                      newWeights[index] = e.target.value;
-                      setUpdatePairWeights(newWeights);
-                    }}
-                    variant="outlined"
-                    helperText={`Max: ${maxWeight}`}
-                    InputProps={{
-                      inputProps: { min: 0, max: maxWeight, step: '0.000001' },
-                    }}
-                  />
-                  <Button variant="outlined" color="error" onClick={() => handleRemovePairWeight(index)} disabled={updatePairAddresses.length === 1} sx={{ height: 56 }}>
-                    Remove
-                  </Button>
-                </Box>
-              ))}
-            </Stack>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+              <Typography variant="h5">Update Pair Weights</Typography>
+              <ToggleButtonGroup value={mode} exclusive size="small" onChange={(_, value) => value && setMode(value)}>
+                <ToggleButton value="allocation">Percentages</ToggleButton>
+                <ToggleButton value="weights">Raw weights</ToggleButton>
+              </ToggleButtonGroup>
+            </Box>
+
+            {mode === 'allocation' ? (
+              <Stack spacing={3}>
+                {error && <Alert severity="error">{error}</Alert>}
+                <WeightAllocationEditor pairs={activePairs} maxWeight={maxWeight ?? 0} hourlyRate={hourlyRate} totalWeight={totalWeight} rewardToken={rewardToken} onSubmit={handleProposeAllocation} />
+              </Stack>
+            ) : (
+              <Stack spacing={3}>
+                {error && <Alert severity="error">{error}</Alert>}
+
+                {updatePairAddresses.map((address, index) => (
+                  <Box key={index} sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                    <TextField
+                      select
+                      fullWidth
+                      label="LP Token Address"
+                      value={address}
+                      onChange={(e) => {
+                        const newAddresses = [...updatePairAddresses];
+                        newAddresses[index] = e.target.value;
+                        const selectedPair = availablePairs.find((pair) => pair.address === e.target.value);
+                        const newWeights = [...updatePairWeights];
+                        newWeights[index] = selectedPair ? selectedPair.weight : '';
+                        setUpdatePairAddresses(newAddresses);
+                        setUpdatePairWeights(newWeights);
+                      }}
+                      variant="outlined"
+                      helperText="Select the LP token address"
+                    >
+                      <MenuItem value="">Select an address</MenuItem>
+                      {availablePairs
+                        .filter((pair) => !updatePairAddresses.includes(pair.address) || pair.address === address)
+                        .map((pair) => (
+                          <MenuItem key={pair.address} value={pair.address}>
+                            {pair.pairName} ({pair.platform})
+                          </MenuItem>
+                        ))}
+                    </TextField>
+                    <TextField
+                      type="number"
+                      label="Weight"
+                      sx={{ width: '200px' }}
+                      value={updatePairWeights[index]}
+                      onChange={(e) => {
+                        const newWeights = [...updatePairWeights];
+                        newWeights[index] = e.target.value;
+                        setUpdatePairWeights(newWeights);
+                      }}
+                      variant="outlined"
+                      helperText={`Max: ${maxWeight}`}
+                      InputProps={{
+                        inputProps: { min: 0, max: maxWeight, step: '0.000001' },
+                      }}
+                    />
+                    <Button variant="outlined" color="error" onClick={() => handleRemovePairWeight(index)} disabled={updatePairAddresses.length === 1} sx={{ height: 56 }}>
+                      Remove
+                    </Button>
+                  </Box>
+                ))}
+              </Stack>
+            )}
           </CardContent>
 
-          <CardActions sx={{ p: 2, justifyContent: 'space-between' }}>
-            <Button variant="outlined" onClick={handleAddPairWeight} startIcon={<span>+</span>}>
-              Add Another Pair
-            </Button>
-            <Button
-              variant="contained"
-              onClick={handleProposeUpdateWeights}
-              disabled={updatePairAddresses.some((addr) => !addr) || updatePairWeights.some((w) => w === '')}
-              color="warning"
-              size="large"
-            >
-              Propose Weight Updates
-            </Button>
-          </CardActions>
+          {mode === 'weights' && (
+            <CardActions sx={{ p: 2, justifyContent: 'space-between' }}>
+              <Button variant="outlined" onClick={handleAddPairWeight} startIcon={<span>+</span>}>
+                Add Another Pair
+              </Button>
+              <Button
+                variant="contained"
+                onClick={handleProposeUpdateWeights}
+                disabled={updatePairAddresses.some((addr) => !addr) || updatePairWeights.some((w) => w === '')}
+                color="warning"
+                size="large"
+              >
+                Propose Weight Updates
+              </Button>
+            </CardActions>
+          )}
         </Card>
       </ModalBox>
     </Modal>
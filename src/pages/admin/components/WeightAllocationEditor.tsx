@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { Alert, Box, Button, Chip, Slider, Stack, TextField, Typography } from '@mui/material';
+import { SCPairData, TokenInfo } from '@/types';
+import { formatTokenAmount, toTokenAmount } from '@/utils/tokenAmount';
+import { FULL_ALLOCATION_BPS, normalizeShares, sharesToWeights, totalShareBps, weightsToShares } from '@/utils/weightAllocation';
+
+interface WeightAllocationEditorProps {
+  pairs: SCPairData[];
+  // MAX_WEIGHT in whole units, as returned by getMaxWeight()
+  maxWeight: number;
+  hourlyRate: bigint;
+  // Live totalWeight() from the contract, which also counts pairs outside `pairs`
+  totalWeight: bigint;
+  rewardToken: TokenInfo;
+  onSubmit: (lpTokens: string[], weights: string[]) => Promise<void>;
+}
+
+/** Sets each pair's target share of emissions and proposes the weights that produce it. */
+const WeightAllocationEditor: React.FC<WeightAllocationEditorProps> = ({ pairs, maxWeight, hourlyRate, totalWeight, rewardToken, onSubmit }) => {
+  const [shares, setShares] = useState<number[]>([]);
+  const currentWeights = pairs.map((pair) => pair.weight);
+  const pairsKey = pairs.map((pair) => pair.lpToken).join(',');
+
+  // Re-seed only when the pair set changes, so a refetch while editing keeps the admin's unsaved shares
+  useEffect(() => {
+    setShares(weightsToShares(pairs.map((pair) => pair.weight)));
+  }, [pairsKey]);
+
+  if (pairs.length === 0 || shares.length !== pairs.length) {
+    return <Typography color="text.secondary">No active pairs to allocate.</Typography>;
+  }
+
+  const maxWeightWei = ethers.parseEther(maxWeight.toString());
+  const weights = sharesToWeights(shares, currentWeights, maxWeightWei);
+  const currentTotal = currentWeights.reduce((sum, weight) => sum + weight, 0n);
+  // The live total always covers the pairs shown; until it loads, fall back to their sum
+  const liveTotal = totalWeight > currentTotal ? totalWeight : currentTotal;
+  const newTotal = liveTotal - currentTotal + weights.reduce((sum, weight) => sum + weight, 0n);
+  const changed = pairs.map((pair, i) => ({ pair, weight: weights[i] })).filter(({ pair, weight }) => weight !== pair.weight);
+  const totalBps = totalShareBps(shares);
+  const isFullyAllocated = totalBps === FULL_ALLOCATION_BPS;
+  const decimals = rewardToken.decimals || 18;
+
+  const setShare = (index: number, value: number) => {
+    const next = [...shares];
+    next[index] = Math.min(Math.max(value, 0), 100);
+    setShares(next);
+  };
+
+  const handleSubmit = () =>
+    onSubmit(
+      changed.map(({ pair }) => pair.lpToken),
+      changed.map(({ weight }) => ethers.formatEther(weight))
+    );
+
+  return (
+    <Stack spacing={2}>
+      <Stack spacing={2} sx={{ maxHeight: '50vh', overflowY: 'auto' }}>
+        {pairs.map((pair, i) => {
+          const emission = newTotal > 0n ? (hourlyRate * weights[i]) / newTotal : 0n;
+          const isChanged = weights[i] !== pair.weight;
+          return (
+            <Box key={pair.lpToken} sx={{ p: 2, borderRadius: 1, bgcolor: isChanged ? 'action.selected' : 'background.default' }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2 }}>
+                <Box>
+                  <Typography sx={{ fontWeight: 'bold' }}>{pair.pairName}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {pair.platform}
+                  </Typography>
+                </Box>
+                <TextField
+                  type="number"
+                  size="small"
+                  value={shares[i]}
+                  onChange={(e) => setShare(i, Number(e.target.value))}
+                  InputProps={{ endAdornment: <Typography sx={{ ml: 1 }}>%</Typography>, inputProps: { min: 0, max: 100, step: '0.01' } }}
+                  sx={{ width: 120 }}
+                />
+              </Box>
+              <Slider value={shares[i]} onChange={(_, value) => setShare(i, value as number)} min={0} max={100} step={0.5} />
+              <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                <Typography variant="body2" color="text.secondary">
+                  Weight {ethers.formatEther(pair.weight)}
+                  {isChanged && ` → ${ethers.formatEther(weights[i])}`}
+                </Typography>
+                <Typography variant="body2">
+                  {formatTokenAmount(toTokenAmount(emission, decimals))} {rewardToken.symbol}/hour
+                </Typography>
+              </Box>
+            </Box>
+          );
+        })}
+      </Stack>
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Chip label={`Allocated: ${Number(totalBps) / 100}%`} color={isFullyAllocated ? 'success' : 'error'} />
+          <Chip label={`Total weight: ${ethers.formatEther(liveTotal)} → ${ethers.formatEther(newTotal)}`} variant="outlined" />
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button size="small" onClick={() => setShares(normalizeShares(shares))} disabled={isFullyAllocated}>
+            Normalize to 100%
+          </Button>
+          <Button size="small" onClick={() => setShares(weightsToShares(currentWeights))}>
+            Reset
+          </Button>
+        </Box>
+      </Box>
+
+      {shares.some((share) => share === 0) && (
+        <Alert severity="info">Pairs at 0% stay listed but earn no rewards. Use Remove Pair to delist one.</Alert>
+      )}
+
+      <Button variant="contained" color="warning" size="large" onClick={handleSubmit} disabled={!isFullyAllocated || changed.length === 0}>
+        {changed.length === 0 ? 'No changes' : `Propose ${changed.length} weight update${changed.length > 1 ? 's' : ''}`}
+      </Button>
+    </Stack>
+  );
+};
+
+export default WeightAllocationEditor;
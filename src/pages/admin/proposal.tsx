@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { Link as RouterLink, useParams } from 'react-router-dom';
+import { useAtom, useAtomValue } from 'jotai';
+import { Alert, Box, Button, Card, CardContent, Chip, CircularProgress, Container, Divider, Grid, Tooltip, Typography } from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import LinkIcon from '@mui/icons-material/Link';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import BlockIcon from '@mui/icons-material/Block';
+import PlayCircleIcon from '@mui/icons-material/PlayCircle';
+import { useContract } from '@/providers/ContractProvider';
+import { useAuth } from '@/providers/AuthProvider';
+import useActionHistory from '@/hooks/useActionHistory';
+import useNotification from '@/hooks/useNotification';
+import { rewardTokenAtom } from '@/store/rewardToken';
+import { refetchAtom } from '@/store/refetch';
+import RefreshButton from '@/components/RefreshButton';
+import ProposalDiff from './components/ProposalDiff';
+import ExpiryCountdown from './components/ExpiryCountdown';
+import { ACTION_TYPE } from '@/constants/actions';
+import { SCPairData } from '@/types';
+import { truncateAddress } from '@/utils';
+
+const Proposal: React.FC = () => {
+  const { id } = useParams();
+  const actionId = Number(id);
+  const [pairs, setPairs] = useState<SCPairData[]>([]);
+  const [signers, setSigners] = useState<string[]>([]);
+  const [hourlyRate, setHourlyRate] = useState<bigint>(0n);
+  const [rewardBalance, setRewardBalance] = useState<bigint>(0n);
+  const [requiredApprovals, setRequiredApprovals] = useState<number>(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refetch, setRefetch] = useAtom(refetchAtom);
+  const rewardToken = useAtomValue(rewardTokenAtom);
+  const { isAdmin } = useAuth();
+  const { showNotification } = useNotification();
+  const { contract, rewardTokenContract, getPairs, getSigners, getHourlyRewardRate, getRequiredApprovals, approveAction, rejectAction, executeAction } = useContract();
+  const { actions, names, isSyncing, sync } = useActionHistory();
+
+  const action = actions.find((candidate) => candidate.id === actionId);
+
+  async function fetchData() {
+    if (!contract || !rewardTokenContract) return;
+    setIsLoading(true);
+    try {
+      const [pairs, signers, hourlyRate, required, balance] = await Promise.all([
+        getPairs(),
+        getSigners(),
+        getHourlyRewardRate(),
+        getRequiredApprovals(),
+        rewardTokenContract.balanceOf(await contract.getAddress()),
+      ]);
+      setPairs(pairs);
+      setSigners(Array.from(signers));
+      setHourlyRate(hourlyRate);
+      setRequiredApprovals(Number(required));
+      setRewardBalance(balance);
+      await sync();
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchData();
+  }, [contract, rewardTokenContract]);
+
+  useEffect(() => {
+    if (refetch) {
+      fetchData();
+      setRefetch(false);
+    }
+  }, [refetch]);
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    showNotification('success', 'Proposal link copied');
+  };
+
+  const runAndRefresh = async (run: (id: number) => Promise<void>) => {
+    await run(actionId);
+    setRefetch(true);
+  };
+
+  const isOpen = !!action && !action.executed && !action.rejected && !action.expired;
+  const canExecute = isOpen && requiredApprovals > 0 && action.approvals >= requiredApprovals;
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Button component={RouterLink} to="/admin" startIcon={<ArrowBackIcon />}>
+          Proposals
+        </Button>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <Tooltip title="Copy a link to this proposal">
+            <Button variant="outlined" size="small" startIcon={<LinkIcon />} onClick={handleCopyLink}>
+              Copy link
+            </Button>
+          </Tooltip>
+          <RefreshButton onClick={() => setRefetch(true)} loading={isLoading || isSyncing} />
+        </Box>
+      </Box>
+
+      {!action ? (
+        isLoading || isSyncing ? (
+          <Box sx={{ textAlign: 'center', mt: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Alert severity="warning">Proposal #{id} was not found.</Alert>
+        )
+      ) : (
+        <Card elevation={3}>
+          <CardContent>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+              <Typography variant="h4" sx={{ fontWeight: 'bold' }}>
+                Proposal #{action.id}
+              </Typography>
+              <Chip label={ACTION_TYPE[action.actionType]} color="primary" variant="outlined" />
+              {action.executed ? (
+                <Chip label="Executed" color="success" />
+              ) : action.rejected ? (
+                <Chip label="Rejected" color="error" />
+              ) : action.expired ? (
+                <Chip label="Expired" color="default" />
+              ) : (
+                <Chip label="Pending" color="warning" />
+              )}
+              <Chip label={`${action.approvals} / ${requiredApprovals} approvals`} color={canExecute ? 'success' : 'default'} />
+              {isOpen && action.proposedTime > 0 && <ExpiryCountdown proposedTime={action.proposedTime} />}
+            </Box>
+
+            <Grid container spacing={2} sx={{ mb: 2 }}>
+              <Grid item xs={12} sm={6}>
+                <Typography variant="body2" color="text.secondary">
+                  Proposed {action.proposedTime ? new Date(action.proposedTime * 1000).toLocaleString() : ''}
+                  {action.proposer && ` by ${truncateAddress(action.proposer)}`}
+                </Typography>
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <Typography variant="body2" color="text.secondary">
+                  Approved by: {action.approvedBy.length > 0 ? action.approvedBy.map(truncateAddress).join(', ') : 'nobody yet'}
+                </Typography>
+              </Grid>
+            </Grid>
+
+            <Divider sx={{ mb: 3 }} />
+
+            {action.executed && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                This proposal has been executed, so "Current" already reflects its changes.
+              </Alert>
+            )}
+            <ProposalDiff action={action} pairs={pairs} names={names} hourlyRate={hourlyRate} rewardBalance={rewardBalance} signers={signers} rewardToken={rewardToken} />
+
+            {isAdmin && isOpen && (
+              <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end', mt: 3 }}>
+                <Button variant="outlined" color="error" startIcon={<BlockIcon />} onClick={() => runAndRefresh(rejectAction)}>
+                  Reject
+                </Button>
+                <Button variant="outlined" startIcon={<CheckCircleIcon />} onClick={() => runAndRefresh(approveAction)}>
+                  Approve
+                </Button>
+                <Button variant="contained" color="secondary" startIcon={<PlayCircleIcon />} onClick={() => runAndRefresh(executeAction)} disabled={!canExecute}>
+                  Execute
+                </Button>
+              </Box>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </Container>
+  );
+};
+
+export default Proposal;
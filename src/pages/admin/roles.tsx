@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { useAtom } from 'jotai';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Container,
+  Link,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import CheckIcon from '@mui/icons-material/Check';
+import RemoveIcon from '@mui/icons-material/Remove';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import { useAuth } from '@/providers/AuthProvider';
+import useRoleMembers from '@/hooks/useRoleMembers';
+import { useContract } from '@/providers/ContractProvider';
+import { refetchAtom } from '@/store/refetch';
+import RefreshButton from '@/components/RefreshButton';
+import ChangeSignerModal from './components/ChangeSignerModal';
+import { getExplorerAddressUrl, getExplorerTxUrl } from '@/constants/networks';
+import { truncateAddress } from '@/utils';
+
+const Flag: React.FC<{ value: boolean }> = ({ value }) => (value ? <CheckIcon color="success" fontSize="small" /> : <RemoveIcon color="disabled" fontSize="small" />);
+
+const AddressLink: React.FC<{ address: string }> = ({ address }) => {
+  const url = getExplorerAddressUrl(address);
+  return url ? (
+    <Link href={url} target="_blank" rel="noopener noreferrer" sx={{ fontFamily: 'monospace' }}>
+      {address}
+    </Link>
+  ) : (
+    <Typography component="span" sx={{ fontFamily: 'monospace' }}>
+      {address}
+    </Typography>
+  );
+};
+
+const Roles: React.FC = () => {
+  const [replacing, setReplacing] = useState<string | null>(null);
+  const [refetch, setRefetch] = useAtom(refetchAtom);
+  const { isAdmin, adminAccount } = useAuth();
+  const { contract } = useContract();
+  const { members, signerChanges, isSyncing, sync, rebuild } = useRoleMembers();
+
+  useEffect(() => {
+    sync();
+  }, [contract]);
+
+  useEffect(() => {
+    if (refetch) {
+      sync();
+      setRefetch(false);
+    }
+  }, [refetch]);
+
+  const handleCloseReplace = () => {
+    setReplacing(null);
+    setRefetch(true);
+  };
+
+  const issueCount = members.filter((member) => member.issues.length > 0).length;
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Button component={RouterLink} to="/admin" startIcon={<ArrowBackIcon />}>
+          Admin Panel
+        </Button>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <Tooltip title="Rebuild role membership from contract events">
+            <span>
+              <Button size="small" onClick={rebuild} disabled={isSyncing}>
+                Rebuild
+              </Button>
+            </span>
+          </Tooltip>
+          <RefreshButton onClick={() => setRefetch(true)} loading={isSyncing} />
+        </Box>
+      </Box>
+
+      <Card elevation={3} sx={{ mb: 3 }}>
+        <CardContent>
+          <Typography variant="h5" sx={{ fontWeight: 'bold', mb: 2 }}>
+            Roles and Signers
+          </Typography>
+
+          {issueCount > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {issueCount} address{issueCount > 1 ? 'es have' : ' has'} role membership that does not match the signer list.
+            </Alert>
+          )}
+
+          {isSyncing && members.length === 0 ? (
+            <Box sx={{ textAlign: 'center', mt: 4, mb: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Address</TableCell>
+                    <TableCell align="center">DEFAULT_ADMIN_ROLE</TableCell>
+                    <TableCell align="center">ADMIN_ROLE</TableCell>
+                    <TableCell align="center">Signer</TableCell>
+                    <TableCell>Issues</TableCell>
+                    <TableCell align="right" />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {members.map((member) => (
+                    <TableRow key={member.address}>
+                      <TableCell>
+                        <AddressLink address={member.address} />
+                        {!!adminAccount && adminAccount.toLowerCase() === member.address.toLowerCase() && <Chip label="You" size="small" color="primary" sx={{ ml: 1 }} />}
+                      </TableCell>
+                      <TableCell align="center">
+                        <Flag value={member.isDefaultAdmin} />
+                      </TableCell>
+                      <TableCell align="center">
+                        <Flag value={member.isAdmin} />
+                      </TableCell>
+                      <TableCell align="center">
+                        <Flag value={member.isSigner} />
+                      </TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                          {member.issues.map((issue) => (
+                            <Chip key={issue} icon={<WarningAmberIcon />} label={issue} color="warning" size="small" variant="outlined" />
+                          ))}
+                        </Box>
+                      </TableCell>
+                      <TableCell align="right">
+                        {isAdmin && member.isSigner && (
+                          <Button size="small" startIcon={<SwapHorizIcon />} onClick={() => setReplacing(member.address)}>
+                            Replace
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card elevation={3}>
+        <CardContent>
+          <Typography variant="h6" sx={{ fontWeight: 'bold', mb: 2 }}>
+            Signer Changes
+          </Typography>
+          {signerChanges.length === 0 ? (
+            <Typography color="text.secondary">No signer changes have been executed.</Typography>
+          ) : (
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Block</TableCell>
+                    <TableCell>Old signer</TableCell>
+                    <TableCell>New signer</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {signerChanges.map((change) => {
+                    const txUrl = getExplorerTxUrl(change.transactionHash);
+                    return (
+                      <TableRow key={change.transactionHash}>
+                        <TableCell>
+                          {txUrl ? (
+                            <Link href={txUrl} target="_blank" rel="noopener noreferrer">
+                              {change.blockNumber}
+                            </Link>
+                          ) : (
+                            change.blockNumber
+                          )}
+                        </TableCell>
+                        <TableCell sx={{ fontFamily: 'monospace' }}>{truncateAddress(change.oldSigner)}</TableCell>
+                        <TableCell sx={{ fontFamily: 'monospace' }}>{truncateAddress(change.newSigner)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <ChangeSignerModal open={!!replacing} onClose={handleCloseReplace} initialOldSigner={replacing ?? ''} />
+    </Container>
+  );
+};
+
+export default Roles;
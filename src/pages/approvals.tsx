@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import { useAtom } from 'jotai';
+import { ethers } from 'ethers';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Link,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import SecurityIcon from '@mui/icons-material/Security';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import { useEthersSigner } from '@/hooks/useEthersSigner';
+import { useContract } from '@/providers/ContractProvider';
+import { refetchAtom } from '@/store/refetch';
+import RefreshButton from '@/components/RefreshButton';
+import { getExplorerAddressUrl } from '@/constants/networks';
+import { TokenAllowance } from '@/types';
+import { truncateAddress } from '@/utils';
+import { formatTokenAmount, isUnlimitedAllowance, parseTokenAmount, toTokenAmount } from '@/utils/tokenAmount';
+
+const Approvals: React.FC = () => {
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editing, setEditing] = useState<TokenAllowance | null>(null);
+  const [customAmount, setCustomAmount] = useState('');
+  const [refetch, setRefetch] = useAtom(refetchAtom);
+  const { contract, getAllowances, setAllowance } = useContract();
+  const signer = useEthersSigner();
+
+  async function fetchData() {
+    if (!contract || !signer) return;
+    setIsLoading(true);
+    try {
+      setAllowances(await getAllowances(signer.address));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchData();
+  }, [contract, signer]);
+
+  useEffect(() => {
+    if (refetch) {
+      fetchData();
+      setRefetch(false);
+    }
+  }, [refetch]);
+
+  const handleRevoke = async (row: TokenAllowance) => {
+    await setAllowance(row.token, row.symbol, toTokenAmount(0n, row.decimals));
+    setRefetch(true);
+  };
+
+  const handleOpenEdit = (row: TokenAllowance) => {
+    setEditing(row);
+    setCustomAmount('');
+  };
+
+  const parsedCustom = editing ? parseTokenAmount(customAmount, editing.decimals) : null;
+
+  const handleSetCustom = async () => {
+    if (!editing || !parsedCustom) return;
+    const row = editing;
+    setEditing(null);
+    await setAllowance(row.token, row.symbol, parsedCustom);
+    setRefetch(true);
+  };
+
+  const unlimitedCount = allowances.filter((row) => isUnlimitedAllowance(row.allowance)).length;
+
+  return (
+    <Container maxWidth="lg">
+      <Box sx={{ mb: 4, mt: 4, display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 2 }}>
+        <SecurityIcon fontSize="large" />
+        <Typography variant="h3" align="center">
+          Approvals
+        </Typography>
+        <RefreshButton onClick={() => setRefetch(true)} loading={isLoading} />
+      </Box>
+
+      {!signer ? (
+        <Alert severity="info">Connect your wallet to review the allowances you have granted to the staking contract.</Alert>
+      ) : (
+        <>
+          {unlimitedCount > 0 && (
+            <Alert severity="warning" sx={{ mb: 3 }}>
+              {unlimitedCount} token{unlimitedCount > 1 ? 's have' : ' has'} an unlimited allowance. The staking contract can move any amount of
+              {unlimitedCount > 1 ? ' these tokens' : ' this token'} from your wallet; revoke or lower the allowance if you no longer stake it.
+            </Alert>
+          )}
+          {isLoading && allowances.length === 0 ? (
+            <Box sx={{ textAlign: 'center', mt: 4, mb: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <Paper sx={{ width: '100%', overflow: 'hidden' }}>
+              <TableContainer>
+                <Table>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Token</TableCell>
+                      <TableCell>Address</TableCell>
+                      <TableCell align="right">Allowance</TableCell>
+                      <TableCell align="right">Actions</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {allowances.map((row) => {
+                      const addressUrl = getExplorerAddressUrl(row.token);
+                      const unlimited = isUnlimitedAllowance(row.allowance);
+                      return (
+                        <TableRow key={row.token}>
+                          <TableCell>
+                            <Typography sx={{ fontWeight: 'bold' }}>{row.label}</Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              {row.isRewardToken ? 'Reward token' : 'LP token'}
+                            </Typography>
+                          </TableCell>
+                          <TableCell>
+                            {addressUrl ? (
+                              <Link href={addressUrl} target="_blank" rel="noopener noreferrer">
+                                {truncateAddress(row.token)}
+                              </Link>
+                            ) : (
+                              truncateAddress(row.token)
+                            )}
+                          </TableCell>
+                          <TableCell align="right">
+                            {unlimited ? (
+                              <Tooltip title="The staking contract can transfer any amount of this token from your wallet">
+                                <Chip icon={<WarningAmberIcon />} label="Unlimited" color="warning" size="small" />
+                              </Tooltip>
+                            ) : (
+                              `${formatTokenAmount(toTokenAmount(row.allowance, row.decimals))} ${row.symbol}`
+                            )}
+                          </TableCell>
+                          <TableCell align="right">
+                            <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+                              <Button size="small" variant="outlined" onClick={() => handleOpenEdit(row)}>
+                                Set
+                              </Button>
+                              <Button size="small" variant="contained" color="error" onClick={() => handleRevoke(row)} disabled={row.allowance === 0n}>
+                                Revoke
+                              </Button>
+                            </Box>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          )}
+        </>
+      )}
+
+      <Dialog open={!!editing} onClose={() => setEditing(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Set {editing?.symbol} allowance</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Allowance"
+            value={customAmount}
+            onChange={(e) => setCustomAmount(e.target.value)}
+            error={customAmount !== '' && !parsedCustom}
+            helperText={customAmount !== '' && !parsedCustom ? 'Enter a valid amount' : 'Use 0 to revoke'}
+            InputProps={{ endAdornment: <Typography sx={{ ml: 1 }}>{editing?.symbol}</Typography> }}
+            sx={{ mt: 1 }}
+          />
+          {editing && (
+            <Button size="small" onClick={() => setCustomAmount(ethers.formatUnits(ethers.MaxUint256, editing.decimals))} sx={{ mt: 1 }}>
+              Unlimited
+            </Button>
+          )}
+          {parsedCustom && isUnlimitedAllowance(parsedCustom.value) && (
+            <Alert severity="warning" sx={{ mt: 2 }}>
+              An unlimited allowance lets the staking contract move all of this token from your wallet, now and in the future.
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button onClick={handleSetCustom} variant="contained" disabled={!parsedCustom}>
+            Set allowance
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+};
+
+export default Approvals;
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { useAtom, useAtomValue } from 'jotai';
+import { ethers } from 'ethers';
+import { Container, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, Box, Chip, Grid, Card, CardContent, Link, Alert, CircularProgress, Button } from '@mui/material';
+import HistoryIcon from '@mui/icons-material/History';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
+import DownloadIcon from '@mui/icons-material/Download';
+import { useEthersSigner } from '@/hooks/useEthersSigner';
+import useStakingHistory from '@/hooks/useStakingHistory';
+import { useContract } from '@/providers/ContractProvider';
+import { rewardTokenAtom } from '@/store/rewardToken';
+import { refetchAtom } from '@/store/refetch';
+import RefreshButton from '@/components/RefreshButton';
+import ExportClaimsDialog from '@/components/ExportClaimsDialog';
+import { getExplorerTxUrl } from '@/constants/networks';
+import { StakingActivity } from '@/types';
+import { truncateAddress } from '@/utils';
+
+interface ActivityRow extends StakingActivity {
+  stakedTotal: bigint;
+  claimedTotal: bigint;
+}
+
+interface PairTotals {
+  staked: bigint;
+  claimed: bigint;
+}
+
+const ACTIVITY_LABELS: Record<StakingActivity['type'], { label: string; color: 'primary' | 'warning' | 'success' }> = {
+  stake: { label: 'Stake', color: 'primary' },
+  unstake: { label: 'Unstake', color: 'warning' },
+  claim: { label: 'Claim', color: 'success' },
+};
+
+// Walks the activity in chain order and records each pair's staked balance and claimed total after every event
+const withRunningTotals = (activities: StakingActivity[]) => {
+  const totals = new Map<string, PairTotals>();
+  const rows = [...activities]
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+    .map((activity): ActivityRow => {
+      const current = totals.get(activity.lpToken) ?? { staked: 0n, claimed: 0n };
+      const next = {
+        staked: current.staked + (activity.type === 'stake' ? activity.amount : activity.type === 'unstake' ? -activity.amount : 0n),
+        claimed: current.claimed + (activity.type === 'claim' ? activity.amount : 0n),
+      };
+      totals.set(activity.lpToken, next);
+      return { ...activity, stakedTotal: next.staked, claimedTotal: next.claimed };
+    });
+  return { rows: rows.reverse(), totals };
+};
+
+const History: React.FC = () => {
+  const [pairNames, setPairNames] = useState<Record<string, string>>({});
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const rewardToken = useAtomValue(rewardTokenAtom);
+  const [refetch, setRefetch] = useAtom(refetchAtom);
+  const { contract, getPairs } = useContract();
+  const { activities, isSyncing, sync } = useStakingHistory();
+  const signer = useEthersSigner();
+
+  async function fetchData() {
+    if (!contract || !signer) return;
+    const pairs = await getPairs();
+    setPairNames(Object.fromEntries(pairs.map((pair) => [pair.lpToken, pair.pairName])));
+    await sync(signer.address);
+  }
+
+  useEffect(() => {
+    fetchData();
+  }, [contract, signer]);
+
+  useEffect(() => {
+    if (refetch) {
+      fetchData();
+      setRefetch(false);
+    }
+  }, [refetch]);
+
+  const { rows, totals } = withRunningTotals(activities);
+  const formatAmount = (activity: StakingActivity, amount: bigint) =>
+    activity.type === 'claim' ? `${Number(ethers.formatUnits(amount, rewardToken.decimals)).toFixed(4)} ${rewardToken.symbol}` : `${Number(ethers.formatEther(amount)).toFixed(6)} LP`;
+
+  return (
+    <Container maxWidth="xl">
+      <Box sx={{ mb: 4, mt: 4, display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 2 }}>
+        <HistoryIcon fontSize="large" />
+        <Typography variant="h3" align="center">
+          Staking History
+        </Typography>
+        <RefreshButton onClick={() => setRefetch(true)} loading={isSyncing} />
+      </Box>
+      {signer && (
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 2 }}>
+          <Button variant="outlined" startIcon={<DownloadIcon />} onClick={() => setIsExportOpen(true)} disabled={!activities.some((activity) => activity.type === 'claim')}>
+            Export Claims
+          </Button>
+        </Box>
+      )}
+
+      {!signer ? (
+        <Alert severity="info">Connect your wallet to see your staking history.</Alert>
+      ) : (
+        <>
+          <Grid container spacing={2} sx={{ mb: 4 }}>
+            {Array.from(totals.entries()).map(([lpToken, pairTotals]) => (
+              <Grid item xs={12} sm={6} md={4} key={lpToken}>
+                <Card variant="outlined">
+                  <CardContent>
+                    <Typography variant="h6" sx={{ fontWeight: 'bold' }}>
+                      {pairNames[lpToken] || truncateAddress(lpToken)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      Staked: {Number(ethers.formatEther(pairTotals.staked)).toFixed(6)} LP
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      Claimed: {Number(ethers.formatUnits(pairTotals.claimed, rewardToken.decimals)).toFixed(4)} {rewardToken.symbol}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+
+          {isSyncing && rows.length === 0 ? (
+            <Box sx={{ textAlign: 'center', mt: 4, mb: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : rows.length === 0 ? (
+            <Box sx={{ textAlign: 'center', p: 4 }}>
+              <Typography variant="h6" color="text.secondary">
+                No staking activity yet.
+              </Typography>
+            </Box>
+          ) : (
+            <Paper sx={{ width: '100%', overflow: 'hidden' }}>
+              <TableContainer sx={{ maxHeight: 640 }}>
+                <Table stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Date</TableCell>
+                      <TableCell>Action</TableCell>
+                      <TableCell>Pair</TableCell>
+                      <TableCell>Amount</TableCell>
+                      <TableCell>Staked After</TableCell>
+                      <TableCell>Claimed To Date</TableCell>
+                      <TableCell>Transaction</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {rows.map((row) => {
+                      const txUrl = getExplorerTxUrl(row.transactionHash);
+                      return (
+                        <TableRow key={`${row.transactionHash}-${row.logIndex}`}>
+                          <TableCell>{row.timestamp ? new Date(row.timestamp * 1000).toLocaleString() : `Block ${row.blockNumber}`}</TableCell>
+                          <TableCell>
+                            <Chip label={ACTIVITY_LABELS[row.type].label} color={ACTIVITY_LABELS[row.type].color} size="small" variant="outlined" />
+                          </TableCell>
+                          <TableCell>{pairNames[row.lpToken] || truncateAddress(row.lpToken)}</TableCell>
+                          <TableCell>{formatAmount(row, row.amount)}</TableCell>
+                          <TableCell>{Number(ethers.formatEther(row.stakedTotal)).toFixed(6)} LP</TableCell>
+                          <TableCell>
+                            {Number(ethers.formatUnits(row.claimedTotal, rewardToken.decimals)).toFixed(4)} {rewardToken.symbol}
+                          </TableCell>
+                          <TableCell>
+                            {txUrl ? (
+                              <Link href={txUrl} target="_blank" rel="noopener" sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}>
+                                {truncateAddress(row.transactionHash)} <OpenInNewIcon fontSize="inherit" />
+                              </Link>
+                            ) : (
+                              truncateAddress(row.transactionHash)
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          )}
+        </>
+      )}
+
+      <ExportClaimsDialog open={isExportOpen} onClose={() => setIsExportOpen(false)} activities={activities} pairNames={pairNames} />
+    </Container>
+  );
+};
+
+export default History;
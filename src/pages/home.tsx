@@ -1,17 +1,22 @@
 import { useEffect, useState } from 'react';
 import { useAtom, useAtomValue } from 'jotai';
 import { useEthersSigner } from '@/hooks/useEthersSigner';
-import { useEthersProvider } from '@/hooks/useEthersProvider';
 import { useContract } from '@/providers/ContractProvider';
 import { ethers } from 'ethers';
-import { Container, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, Button, Skeleton, Box, Card, CardContent, Grid, Chip } from '@mui/material';
-import { PairInfo, SCPairData } from '@/types';
+import { Container, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, Button, Skeleton, Box, Card, CardContent, Grid, Chip, Tooltip, TextField, MenuItem } from '@mui/material';
+import { PairInfo } from '@/types';
 import StakingModal from '@/components/StakingModal';
+import ClaimAllModal from '@/components/ClaimAllModal';
 import SimpleAlert from '@/components/SimpleAlert';
-import { calcAPR, fetchTokenPrice } from '@/utils';
+import { formatCompactNumber, formatCompactUsd } from '@/utils';
+import { aprToApy, AprBreakdown, COMPOUNDING_OPTIONS, computeApr, describeApr } from '@/utils/apr';
+import { compoundsPerYearAtom } from '@/store/aprSettings';
+import { usePriceOracle } from '@/hooks/usePriceOracle';
 import { rewardTokenAtom } from '@/store/rewardToken';
 import { refetchAtom } from '@/store/refetch';
 import RefreshButton from '@/components/RefreshButton';
+import LiveRewardsAmount from '@/components/LiveRewardsAmount';
+import useLiveRewards from '@/hooks/useLiveRewards';
 import AccountBalanceWalletIcon from '@mui/icons-material/AccountBalanceWallet';
 import AccessTimeIcon from '@mui/icons-material/AccessTime';
 import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
@@ -30,38 +35,37 @@ const Home: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [totalWeight, setTotalWeight] = useState<number>(0);
   const rewardToken = useAtomValue(rewardTokenAtom);
-  const { contract, getPairs, getHourlyRewardRate, getUserStakeInfo, getTVL, getPendingRewards, getTotalWeight } = useContract();
+  const [compoundsPerYear, setCompoundsPerYear] = useAtom(compoundsPerYearAtom);
+  const { contract, isReadOnly, getPoolsSnapshot } = useContract();
   const [refetch, setRefetch] = useAtom(refetchAtom);
-  const provider = useEthersProvider();
   const signer = useEthersSigner();
+  const priceOracle = usePriceOracle();
   const [initialTab, setInitialTab] = useState(0);
+  const [isClaimAllOpen, setIsClaimAllOpen] = useState(false);
 
   async function fetchData() {
     setIsLoading(true);
-    if (contract && provider) {
+    if (contract) {
       try {
-        const pairsData = await getPairs();
-        const hourlyRate = await getHourlyRewardRate();
-        const totalWeight = await getTotalWeight();
+        const userAddress = signer ? await signer.getAddress() : undefined;
+        const { pools, hourlyRewardRate: hourlyRate, totalWeight } = await getPoolsSnapshot(userAddress);
+        const rewardQuote = await priceOracle.getPrice(rewardToken.address);
         const pairsInfo: PairInfo[] = await Promise.all(
-          pairsData.map(async (pair: SCPairData) => {
-            let myShare = 0;
-            let myEarnings = 0;
-            let allowance = BigInt(0);
-
-            const lpTokenPrice = await fetchTokenPrice(pair.lpToken);
-            const rewardTokenPrice = await fetchTokenPrice(rewardToken.address);
-
-            const tvlWei = await getTVL(pair.lpToken);
-            const apr = calcAPR(Number(ethers.formatEther(hourlyRate)), Number(ethers.formatEther(tvlWei)), lpTokenPrice, rewardTokenPrice);
+          pools.map(async ({ pair, tvl: tvlWei, earned, stakeInfo }) => {
+            const lpQuote = await priceOracle.getPrice(pair.lpToken);
             const tvl = Number(ethers.formatEther(tvlWei));
-
-            if (signer) {
-              const userAddress = await signer.getAddress();
-              const userStake = await getUserStakeInfo(userAddress, pair.lpToken);
-              myShare = tvlWei > 0n ? Number((userStake.amount * 100n) / tvlWei) : 0;
-              myEarnings = Number(ethers.formatEther(await getPendingRewards(userAddress, pair.lpToken)));
-            }
+            const aprBreakdown = computeApr({
+              hourlyRewardRate: Number(ethers.formatEther(hourlyRate)),
+              weight: pair.weight,
+              totalWeight,
+              tvl,
+              lpPriceUsd: lpQuote?.priceUsd ?? null,
+              rewardPriceUsd: rewardQuote?.priceUsd ?? null,
+              compoundsPerYear,
+            });
+            const myStake = stakeInfo ? Number(ethers.formatEther(stakeInfo.amount)) : 0;
+            const myShare = stakeInfo && tvlWei > 0n ? Number((stakeInfo.amount * 10000n) / tvlWei) / 100 : 0;
+            const myEarnings = Number(ethers.formatEther(earned));
 
             return {
               lpToken: pair.lpToken,
@@ -69,11 +73,21 @@ const Home: React.FC = () => {
               platform: pair.platform,
               weight: pair.weight,
               isActive: pair.isActive,
-              apr,
+              apr: aprBreakdown.apr,
+              aprBreakdown,
               tvl,
+              tvlUsd: lpQuote ? tvl * lpQuote.priceUsd : null,
+              myStake,
+              myStakeUsd: lpQuote ? myStake * lpQuote.priceUsd : null,
               myShare,
               myEarnings,
-              allowance,
+              tvlWei,
+              myStakeWei: stakeInfo?.amount ?? 0n,
+              myEarningsWei: earned,
+              myPendingRewardsWei: stakeInfo?.pendingRewards ?? 0n,
+              myLastRewardTime: stakeInfo?.lastRewardTime ?? 0n,
+              pairHourlyRewardsWei: totalWeight > 0n ? (hourlyRate * pair.weight) / totalWeight : 0n,
+              priceSource: lpQuote && rewardQuote ? `LP: ${lpQuote.source}, ${rewardToken.symbol}: ${rewardQuote.source}` : null,
             };
           })
         );
@@ -90,7 +104,7 @@ const Home: React.FC = () => {
 
         setPairs(sortedPairs);
         setHourlyRewardRate(ethers.formatEther(hourlyRate));
-        setTotalWeight(Number(totalWeight));
+        setTotalWeight(Number(totalWeight > 0n ? totalWeight : 1n));
       } catch (error) {}
     }
     setIsLoading(false);
@@ -98,7 +112,7 @@ const Home: React.FC = () => {
 
   useEffect(() => {
     fetchData();
-  }, [contract, provider, signer, rewardToken]);
+  }, [contract, signer, rewardToken]);
 
   useEffect(() => {
     if (refetch) {
@@ -107,6 +121,22 @@ const Home: React.FC = () => {
     }
   }, [refetch]);
 
+  const { getRewards, drift, isDrifting } = useLiveRewards(
+    pairs.map((pair) => ({
+      lpToken: pair.lpToken,
+      stake: pair.myStakeWei,
+      tvl: pair.tvlWei,
+      pairHourlyRewards: pair.pairHourlyRewardsWei,
+      pendingRewards: pair.myPendingRewardsWei,
+      lastRewardTime: pair.myLastRewardTime,
+      earned: pair.myEarningsWei,
+    })),
+    signer?.address
+  );
+
+  // Compounding only changes APY, so switching it re-derives the figures without refetching
+  const withCompounding = (breakdown: AprBreakdown): AprBreakdown => ({ ...breakdown, compoundsPerYear, apy: aprToApy(breakdown.apr, compoundsPerYear) });
+
   const handlePairClick = (pairAddress: string) => {
     window.open(`https://app.uniswap.org/explore/pools/polygon/${pairAddress}`, '_blank');
   };
@@ -127,6 +157,30 @@ const Home: React.FC = () => {
           <AccessTimeIcon />
           <Typography variant="h6">Hourly Reward Rate: {Number(hourlyRewardRate).toFixed(2)} LIB</Typography>
           <RefreshButton onClick={() => setRefetch(true)} loading={isLoading} />
+          <Button
+            variant="contained"
+            color="secondary"
+            size="small"
+            startIcon={<RedeemIcon />}
+            onClick={() => setIsClaimAllOpen(true)}
+            disabled={isReadOnly || !pairs.some((pair) => pair.myEarningsWei > 0n)}
+          >
+            Claim all
+          </Button>
+          <TextField
+            select
+            size="small"
+            label="APY compounding"
+            value={compoundsPerYear}
+            onChange={(e) => setCompoundsPerYear(Number(e.target.value))}
+            sx={{ minWidth: 160 }}
+          >
+            {COMPOUNDING_OPTIONS.map((option) => (
+              <MenuItem key={option.periodsPerYear} value={option.periodsPerYear}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
         </Box>
       </Grid>
 
@@ -189,22 +243,68 @@ const Home: React.FC = () => {
                     <TableCell>
                       <Chip label={pair.platform} color="primary" variant="outlined" />
                     </TableCell>
-                    <TableCell sx={{ color: 'success.main', fontWeight: 'bold' }}>{pair.apr.toFixed(1)}%</TableCell>
+                    <TableCell sx={{ color: 'success.main', fontWeight: 'bold' }}>
+                      <Tooltip
+                        title={
+                          <Box>
+                            {describeApr(withCompounding(pair.aprBreakdown), Number(hourlyRewardRate), rewardToken.symbol).map((line) => (
+                              <Typography key={line} variant="caption" component="div">
+                                {line}
+                              </Typography>
+                            ))}
+                            <Typography variant="caption" component="div" sx={{ mt: 1, opacity: 0.8 }}>
+                              {pair.priceSource ? `Prices: ${pair.priceSource}` : 'No USD prices available; APR is measured in reward tokens per LP token'}
+                            </Typography>
+                          </Box>
+                        }
+                      >
+                        <Box component="span" sx={{ cursor: 'help' }}>
+                          {pair.aprBreakdown.zeroWeight ? (
+                            <Chip label="No rewards" size="small" color="default" />
+                          ) : pair.aprBreakdown.zeroTvl ? (
+                            <Chip label="No stakers" size="small" color="info" variant="outlined" />
+                          ) : (
+                            <>
+                              {pair.apr.toFixed(1)}%
+                              <Chip label={pair.priceSource ? 'USD' : 'Token'} size="small" variant="outlined" sx={{ ml: 1, fontSize: '0.7rem', height: 20 }} />
+                              <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                                APY {aprToApy(pair.apr, compoundsPerYear).toFixed(1)}%
+                              </Typography>
+                            </>
+                          )}
+                        </Box>
+                      </Tooltip>
+                    </TableCell>
                     <TableCell>
                       <Chip
                         label={`${ethers.formatEther(pair.weight)} (${((Number(pair.weight) * 100) / Number(totalWeight)).toFixed(2)}%)`}
                         color="secondary"
                       />
                     </TableCell>
-                    <TableCell>{pair.tvl.toFixed(2)}</TableCell>
                     <TableCell>
-                      <Button onClick={() => handleShareClick(pair)} variant="contained" color="primary" disabled={!signer} size="small" startIcon={<ShareIcon />}>
+                      <Tooltip title={`${pair.tvl.toFixed(4)} LP tokens staked`}>
+                        <span>{pair.tvlUsd !== null ? formatCompactUsd(pair.tvlUsd) : `${formatCompactNumber(pair.tvl)} LP`}</span>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell>
+                      <Button onClick={() => handleShareClick(pair)} variant="contained" color="primary" disabled={isReadOnly} size="small" startIcon={<ShareIcon />}>
                         {pair.myShare.toFixed(2)}%
                       </Button>
+                      {signer && pair.myStake > 0 && (
+                        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+                          {pair.myStakeUsd !== null ? formatCompactUsd(pair.myStakeUsd) : `${formatCompactNumber(pair.myStake)} LP`}
+                        </Typography>
+                      )}
                     </TableCell>
                     <TableCell>
-                      <Button onClick={() => handleShareClick(pair, 2)} variant="contained" color="secondary" disabled={!signer} size="small" startIcon={<RedeemIcon />}>
-                        {pair.myEarnings.toFixed(4)} LIB
+                      <Button onClick={() => handleShareClick(pair, 2)} variant="contained" color="secondary" disabled={isReadOnly} size="small" startIcon={<RedeemIcon />}>
+                        <LiveRewardsAmount
+                          amount={getRewards(pair.lpToken)}
+                          decimals={rewardToken.decimals || 18}
+                          symbol={rewardToken.symbol || 'LIB'}
+                          drift={drift[pair.lpToken]}
+                          isDrifting={isDrifting(pair.lpToken)}
+                        />
                       </Button>
                     </TableCell>
                   </TableRow>
@@ -221,6 +321,14 @@ const Home: React.FC = () => {
         setIsModalOpen={setIsModalOpen}
         initialTab={initialTab}
       />
+      <ClaimAllModal
+        open={isClaimAllOpen}
+        pairs={pairs}
+        onClose={(claimed) => {
+          setIsClaimAllOpen(false);
+          if (claimed) setRefetch(true);
+        }}
+      />
     </Container>
   );
 };
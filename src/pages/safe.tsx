@@ -0,0 +1,280 @@
+import { useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Container,
+  Grid,
+  Link,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import ShieldIcon from '@mui/icons-material/Shield';
+import DrawIcon from '@mui/icons-material/Draw';
+import PlayCircleIcon from '@mui/icons-material/PlayCircle';
+import DownloadIcon from '@mui/icons-material/Download';
+import UploadIcon from '@mui/icons-material/Upload';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useEthersSigner } from '@/hooks/useEthersSigner';
+import useSafe from '@/hooks/useSafe';
+import useNotification from '@/hooks/useNotification';
+import { getExplorerTxUrl } from '@/constants/networks';
+import { QueuedSafeTransaction } from '@/types';
+import { truncateAddress } from '@/utils';
+import { downloadFile } from '@/utils/claimsExport';
+import { toTransactionBuilderJson } from '@/utils/safe';
+
+const STATUS_COLORS: Record<QueuedSafeTransaction['status'], 'warning' | 'success' | 'error' | 'default'> = {
+  queued: 'warning',
+  executed: 'success',
+  failed: 'error',
+  replaced: 'default',
+};
+
+const Safe: React.FC = () => {
+  const signer = useEthersSigner();
+  const { showNotification } = useNotification();
+  const {
+    safeAddress,
+    setSafeAddress,
+    safeInfo,
+    actingSafe,
+    isActingAsSafe,
+    isOwner,
+    isConnectedContractWallet,
+    queue,
+    signatureCount,
+    signTransaction,
+    executeTransaction,
+    importTransaction,
+    exportTransaction,
+    removeTransaction,
+  } = useSafe();
+  const [addressInput, setAddressInput] = useState(safeAddress);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const addressError = addressInput && !ethers.isAddress(addressInput) ? 'Invalid address format' : '';
+
+  const handleExport = (item: QueuedSafeTransaction) => {
+    downloadFile(`safe-tx-${item.tx.nonce}-${item.safeTxHash.slice(2, 10)}.json`, exportTransaction(item.safeTxHash), 'application/json');
+  };
+
+  const handleExportBuilder = (item: QueuedSafeTransaction) => {
+    downloadFile(`safe-tx-builder-${item.tx.nonce}.json`, toTransactionBuilderJson(item.safeAddress, item.chainId, item.label, [item.tx]), 'application/json');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      importTransaction(await file.text());
+      showNotification('success', 'Safe transaction imported');
+    } catch (err) {
+      showNotification('error', err instanceof Error ? err.message : 'Could not import the file');
+    }
+  };
+
+  return (
+    <Container maxWidth="lg">
+      <Box sx={{ mb: 4, mt: 4, display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 2 }}>
+        <ShieldIcon fontSize="large" />
+        <Typography variant="h3" align="center">
+          Safe
+        </Typography>
+      </Box>
+
+      {!signer ? (
+        <Alert severity="info">Connect your wallet to act for a Safe.</Alert>
+      ) : (
+        <>
+          <Card elevation={3} sx={{ mb: 3 }}>
+            <CardContent>
+              {isConnectedContractWallet ? (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  The connected account is a smart-contract wallet, so signer actions are queued as Safe transactions for {truncateAddress(signer.address)}. Export them to
+                  collect owner signatures or import them into the Safe app.
+                </Alert>
+              ) : (
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start', mb: 2 }}>
+                  <TextField
+                    label="Safe address"
+                    value={addressInput}
+                    onChange={(e) => setAddressInput(e.target.value.trim())}
+                    error={!!addressError}
+                    helperText={addressError || 'Act for a Safe you own; leave empty to act as your own account'}
+                    fullWidth
+                  />
+                  <Button variant="contained" onClick={() => setSafeAddress(addressInput)} disabled={!!addressError} sx={{ height: 56 }}>
+                    {addressInput ? 'Use Safe' : 'Clear'}
+                  </Button>
+                </Box>
+              )}
+
+              {actingSafe && !safeInfo && <Alert severity="warning">{truncateAddress(actingSafe)} does not look like a Safe on this network.</Alert>}
+              {safeInfo && !isActingAsSafe && <Alert severity="warning">The connected account is not an owner of this Safe, so it keeps acting as itself.</Alert>}
+
+              {safeInfo && (
+                <Grid container spacing={2}>
+                  <Grid item xs={12} md={4}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Safe
+                    </Typography>
+                    <Typography sx={{ fontFamily: 'monospace' }}>{truncateAddress(safeInfo.address)}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Version {safeInfo.version}, nonce {safeInfo.nonce}
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={12} md={4}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Threshold
+                    </Typography>
+                    <Typography>
+                      {safeInfo.threshold} of {safeInfo.owners.length} owners
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={12} md={4}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Owners
+                    </Typography>
+                    {safeInfo.owners.map((owner) => (
+                      <Typography key={owner} variant="body2" sx={{ fontFamily: 'monospace', fontWeight: owner.toLowerCase() === signer.address.toLowerCase() ? 'bold' : 'normal' }}>
+                        {truncateAddress(owner)}
+                        {owner.toLowerCase() === signer.address.toLowerCase() && ' (you)'}
+                      </Typography>
+                    ))}
+                  </Grid>
+                </Grid>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card elevation={3}>
+            <CardContent>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                <Typography variant="h5" sx={{ fontWeight: 'bold' }}>
+                  Queued Transactions
+                </Typography>
+                <Button startIcon={<UploadIcon />} onClick={() => fileInput.current?.click()}>
+                  Import
+                </Button>
+                <input
+                  ref={fileInput}
+                  type="file"
+                  accept="application/json"
+                  hidden
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImport(file);
+                    e.target.value = '';
+                  }}
+                />
+              </Box>
+
+              {queue.length === 0 ? (
+                <Typography color="text.secondary">
+                  {isActingAsSafe ? 'Proposals, approvals and executions from the admin panel will be queued here.' : 'No Safe transactions.'}
+                </Typography>
+              ) : (
+                <TableContainer component={Paper} variant="outlined">
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Nonce</TableCell>
+                        <TableCell>Action</TableCell>
+                        <TableCell align="center">Signatures</TableCell>
+                        <TableCell align="center">Status</TableCell>
+                        <TableCell align="right">Actions</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {queue.map((item) => {
+                        const signed = signatureCount(item);
+                        const threshold = safeInfo?.threshold ?? 0;
+                        const hasSigned = Object.keys(item.signatures).some((owner) => owner.toLowerCase() === signer.address.toLowerCase());
+                        const isQueued = item.status === 'queued';
+                        const txUrl = item.executionHash ? getExplorerTxUrl(item.executionHash) : '';
+                        return (
+                          <TableRow key={item.safeTxHash}>
+                            <TableCell>{item.tx.nonce}</TableCell>
+                            <TableCell>
+                              <Typography variant="body2">{item.label}</Typography>
+                              <Tooltip title={item.safeTxHash}>
+                                <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                                  {truncateAddress(item.safeTxHash)}
+                                </Typography>
+                              </Tooltip>
+                            </TableCell>
+                            <TableCell align="center">
+                              <Chip label={`${signed} / ${threshold}`} size="small" color={signed >= threshold && threshold > 0 ? 'success' : 'default'} />
+                            </TableCell>
+                            <TableCell align="center">
+                              {txUrl ? (
+                                <Link href={txUrl} target="_blank" rel="noopener noreferrer">
+                                  <Chip label={item.status} size="small" color={STATUS_COLORS[item.status]} clickable />
+                                </Link>
+                              ) : (
+                                <Chip label={item.status} size="small" color={STATUS_COLORS[item.status]} />
+                              )}
+                            </TableCell>
+                            <TableCell align="right">
+                              <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end', flexWrap: 'wrap' }}>
+                                {isQueued && isOwner && !hasSigned && (
+                                  <Button size="small" startIcon={<DrawIcon />} onClick={() => signTransaction(item.safeTxHash)}>
+                                    Sign
+                                  </Button>
+                                )}
+                                {isQueued && !isConnectedContractWallet && (
+                                  <Button
+                                    size="small"
+                                    variant="contained"
+                                    color="secondary"
+                                    startIcon={<PlayCircleIcon />}
+                                    onClick={() => executeTransaction(item.safeTxHash)}
+                                    disabled={signed < threshold || item.tx.nonce !== safeInfo?.nonce}
+                                  >
+                                    Execute
+                                  </Button>
+                                )}
+                                <Tooltip title="Export with signatures for another owner">
+                                  <Button size="small" startIcon={<DownloadIcon />} onClick={() => handleExport(item)}>
+                                    Export
+                                  </Button>
+                                </Tooltip>
+                                <Tooltip title="Export for the Safe app's Transaction Builder">
+                                  <Button size="small" onClick={() => handleExportBuilder(item)}>
+                                    Builder
+                                  </Button>
+                                </Tooltip>
+                                <Tooltip title="Remove from this browser">
+                                  <Button size="small" color="error" onClick={() => removeTransaction(item.safeTxHash)} sx={{ minWidth: 0 }}>
+                                    <DeleteIcon fontSize="small" />
+                                  </Button>
+                                </Tooltip>
+                              </Box>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </Container>
+  );
+};
+
+export default Safe;
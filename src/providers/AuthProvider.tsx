@@ -1,15 +1,19 @@
 import { createContext, ReactNode, useContext, useEffect, useState } from 'react';
 import { useContract } from './ContractProvider';
 import { useEthersSigner } from '@/hooks/useEthersSigner';
+import useSafe from '@/hooks/useSafe';
 import { userInfoAtom } from '@/store/userInfo';
 import { useAtom } from 'jotai';
 
 interface AuthContextType {
   isAdmin: boolean;
+  // Account whose ADMIN_ROLE is used: the Safe being acted for, otherwise the connected wallet
+  adminAccount: string;
 }
 
 const AuthContext = createContext<AuthContextType>({
   isAdmin: false,
+  adminAccount: '',
 });
 
 export const useAuth = () => useContext(AuthContext);
@@ -23,11 +27,13 @@ export const AuthProvider = ({ children }: AuthContextProps) => {
   const [isAdmin, setIsAdmin] = useState(false);
   const { contract, hasAdminRole } = useContract();
   const signer = useEthersSigner();
+  const { isActingAsSafe, safeInfo } = useSafe();
+  const adminAccount = isActingAsSafe && safeInfo ? safeInfo.address : signer?.address ?? '';
 
   useEffect(() => {
     const setAdmin = async () => {
-      if (contract && signer) {
-        const isAdmin = await hasAdminRole(signer.address);
+      if (contract && adminAccount) {
+        const isAdmin = await hasAdminRole(adminAccount);
         setUserInfo({
           ...userInfo,
           isAdmin: isAdmin,
@@ -36,7 +42,7 @@ export const AuthProvider = ({ children }: AuthContextProps) => {
       }
     };
     setAdmin();
-  }, [contract, signer]);
+  }, [contract, adminAccount]);
 
-  return <AuthContext.Provider value={{ isAdmin }}>{children}</AuthContext.Provider>;
+  return <AuthContext.Provider value={{ isAdmin, adminAccount }}>{children}</AuthContext.Provider>;
 };
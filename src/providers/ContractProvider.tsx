@@ -1,17 +1,28 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { ethers } from 'ethers';
-import { useEthersProvider } from '@/hooks/useEthersProvider';
 import LPStaking_ABI from '@/assets/abi/LPStaking.json';
 import UNIV2_ABI from '@/assets/abi/UNI-V2.json';
 import LIBERC20_ABI from '@/assets/abi/LIBERC20.json';
 import { useEthersSigner } from '@/hooks/useEthersSigner';
-import { SCPairData, TokenInfo } from '@/types';
+import { useReadOnlyProvider } from '@/hooks/useReadOnlyProvider';
+import { ApprovalMode, PairValidation, PoolsSnapshot, SCPairData, StakeApproval, TokenAllowance, TokenInfo, UserStakeInfo } from '@/types';
 import { useAtom } from 'jotai';
 import { rewardTokenAtom } from '@/store/rewardToken';
 import ERC20_ABI from '@/assets/abi/ERC20.json';
 import { ContractEvent } from '@/types';
 import useNotification from '@/hooks/useNotification';
 import useAlert from '@/hooks/useAlert';
+import useTransactions from '@/hooks/useTransactions';
+import usePreflight from '@/hooks/usePreflight';
+import useSafe from '@/hooks/useSafe';
+import { truncateAddress } from '@/utils';
+import { decodeContractError } from '@/utils/errors';
+import { formatTokenAmount, isUnlimitedAllowance, TokenAmount } from '@/utils/tokenAmount';
+import { encodePermit, permitArgs, signPermit, supportsPermit } from '@/utils/permit';
+import { sendCalls, supportsBatchedCalls, waitForCalls } from '@/utils/walletCalls';
+import { CallResult, ContractCall, executeCalls } from '@/utils/multicall';
+import { getFactoryPlatform } from '@/constants/networks';
+import { MULTISIG_METHODS } from '@/constants/actions';
 
 const STAKING_CONTRACT_ADDRESS = import.meta.env.VITE_STAKING_CONTRACT_ADDRESS as string;
 const REWARD_TOKEN_ADDRESS = import.meta.env.VITE_REWARD_TOKEN_ADDRESS as string;
@@ -19,11 +30,13 @@ const REWARD_TOKEN_ADDRESS = import.meta.env.VITE_REWARD_TOKEN_ADDRESS as string
 interface ContractContextType {
   contract: ethers.Contract | null;
   rewardTokenContract: ethers.Contract | null;
+  // True while no wallet is connected and the contracts are backed by the public RPC
+  isReadOnly: boolean;
   isLoading: boolean;
   error: Error | null;
   // Core staking functions
-  stake: (lpToken: string, amount: string) => Promise<void>;
-  unstake: (lpToken: string, amount: string) => Promise<void>;
+  stake: (lpToken: string, amount: TokenAmount, approvalMode?: ApprovalMode) => Promise<void>;
+  unstake: (lpToken: string, amount: TokenAmount) => Promise<void>;
   claimRewards: (lpToken: string) => Promise<void>;
 
   // Propose functions
@@ -50,6 +63,11 @@ interface ContractContextType {
   // Pair info
   getPairInfo: (address: string) => Promise<SCPairData>;
   getPairs: () => Promise<SCPairData[]>;
+  validatePair: (lpToken: string) => Promise<PairValidation>;
+
+  // Batched reads
+  multicall: (calls: ContractCall[]) => Promise<CallResult[]>;
+  getPoolsSnapshot: (userAddress?: string) => Promise<PoolsSnapshot>;
 
   // Contract state
   getHourlyRewardRate: () => Promise<bigint>;
@@ -66,6 +84,9 @@ interface ContractContextType {
   // Token info
   getTokenInfo: (address: string) => Promise<TokenInfo>;
   getERC20Balance: (address: string, tokenAddress: string) => Promise<bigint>;
+  getStakeApproval: (lpToken: string) => Promise<StakeApproval>;
+  getAllowances: (owner: string) => Promise<TokenAllowance[]>;
+  setAllowance: (token: string, symbol: string, amount: TokenAmount) => Promise<void>;
 
   // Action info
   getActionApproval: (actionId: number) => Promise<string[]>;
@@ -77,11 +98,33 @@ interface ContractContextType {
 
   // Reject action
   rejectAction: (actionId: number) => Promise<void>;
+
+  // Expiry
+  isActionExpired: (actionId: number) => Promise<boolean>;
+  handleExpiredAction: (actionId: number) => Promise<void>;
+  cleanupExpiredActions: () => Promise<void>;
 }
 
+const emptyPairValidation = (lpToken: string, errors: string[]): PairValidation => ({
+  lpToken,
+  isV2Pair: false,
+  factory: '',
+  platform: '',
+  token0: '',
+  token1: '',
+  symbol0: '',
+  symbol1: '',
+  decimals0: 18,
+  decimals1: 18,
+  reserve0: BigInt(0),
+  reserve1: BigInt(0),
+  errors,
+});
+
 const ContractContext = createContext<ContractContextType>({
   contract: null,
   rewardTokenContract: null,
+  isReadOnly: true,
   isLoading: true,
   error: null,
   stake: async () => {},
@@ -99,6 +142,9 @@ const ContractContext = createContext<ContractContextType>({
   getUserStakeInfo: async () => ({ amount: BigInt(0), pendingRewards: BigInt(0), lastRewardTime: BigInt(0) }),
   getPairInfo: async () => ({ lpToken: '', pairName: '', platform: '', weight: BigInt(0), isActive: false }),
   getPairs: async () => [],
+  validatePair: async (lpToken) => emptyPairValidation(lpToken, []),
+  multicall: async () => [],
+  getPoolsSnapshot: async () => ({ hourlyRewardRate: BigInt(0), totalWeight: BigInt(0), pools: [] }),
   getHourlyRewardRate: async () => BigInt(0),
   getContractAddress: async () => '',
   getMaxWeight: async () => 0,
@@ -112,11 +158,17 @@ const ContractContext = createContext<ContractContextType>({
   hasAdminRole: async () => false,
   getTokenInfo: async () => ({ address: '', symbol: '', decimals: 0 }),
   getERC20Balance: async () => BigInt(0),
+  getStakeApproval: async () => ({ allowance: BigInt(0), permitSupported: false, batchSupported: false }),
+  getAllowances: async () => [],
+  setAllowance: async () => {},
   getActionApproval: async () => [],
   getActionPairs: async () => [],
   getActionWeights: async () => [],
   getEvents: () => [],
   rejectAction: async () => {},
+  isActionExpired: async () => false,
+  handleExpiredAction: async () => {},
+  cleanupExpiredActions: async () => {},
 });
 
 export const useContract = () => useContext(ContractContext);
@@ -135,8 +187,11 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
 
   const { showNotification } = useNotification();
   const { showAlert } = useAlert();
-  const provider = useEthersProvider();
   const signer = useEthersSigner();
+  const { trackTransaction, recordBatch } = useTransactions();
+  const { preflight } = usePreflight();
+  const { isActingAsSafe, queueTransaction } = useSafe();
+  const readProvider = useReadOnlyProvider();
 
   useEffect(() => {
     if (error !== null) {
@@ -147,16 +202,12 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
 
   useEffect(() => {
     const initContract = async () => {
-      if (!provider || !signer) {
-        setIsLoading(false);
-        return;
-      }
-
       try {
-        const stakingContract = new ethers.Contract(STAKING_CONTRACT_ADDRESS, LPStaking_ABI, provider);
-        const rewardTokenContract = new ethers.Contract(REWARD_TOKEN_ADDRESS, LIBERC20_ABI, provider);
-        setContract(stakingContract.connect(signer) as ethers.Contract);
-        setRewardTokenContract(rewardTokenContract.connect(signer) as ethers.Contract);
+        // Without a wallet the contracts stay on the public RPC so the pool table can still be read
+        const stakingContract = new ethers.Contract(STAKING_CONTRACT_ADDRESS, LPStaking_ABI, readProvider);
+        const rewardTokenContract = new ethers.Contract(REWARD_TOKEN_ADDRESS, LIBERC20_ABI, readProvider);
+        setContract(signer ? (stakingContract.connect(signer) as ethers.Contract) : stakingContract);
+        setRewardTokenContract(signer ? (rewardTokenContract.connect(signer) as ethers.Contract) : rewardTokenContract);
         setError(null);
       } catch (err) {
         setError(new Error('Failed to initialize contract'));
@@ -166,7 +217,7 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     };
 
     initContract();
-  }, [provider, signer]);
+  }, [readProvider, signer]);
 
   useEffect(() => {
     const getRewardToken = async () => {
@@ -247,38 +298,73 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     setEvents((prev) => [newEvent, ...prev]);
   };
 
+  // Simulates the write, asks for confirmation, then sends and tracks it; null when the user backs out
+  const sendWrite = async (label: string, target: ethers.Contract, method: string, args: unknown[]) => {
+    // Signer actions for a Safe are queued for its owners instead of sent from the connected wallet
+    if (isActingAsSafe && target === contract && MULTISIG_METHODS.includes(method)) {
+      await queueTransaction(label, await target.getAddress(), target.interface.encodeFunctionData(method, args));
+      return null;
+    }
+    const contractMethod = target.getFunction(method);
+    if (!(await preflight(label, contractMethod, args))) return null;
+    return trackTransaction(label, await contractMethod(...args));
+  };
+
   // Core staking functions
-  const stake = async (lpToken: string, amount: string) => {
+  // LPStaking has no permit entry point, so the signed permit and the stake reach the wallet as one EIP-5792 batch
+  const stakeWithPermit = async (lpToken: string, amount: TokenAmount) => {
+    if (!contract || !signer) return;
+    const lpContract = new ethers.Contract(lpToken, UNIV2_ABI, signer);
+    const permit = await signPermit(signer, lpContract, STAKING_CONTRACT_ADDRESS, amount.value);
+    const label = `Permit and stake ${formatTokenAmount(amount)} LP`;
+    // Only the permit can be simulated up front; the stake depends on the allowance it grants
+    if (!(await preflight(label, lpContract.getFunction('permit'), permitArgs(permit)))) return;
+    const chainId = Number((await signer.provider.getNetwork()).chainId);
+    const batchId = await sendCalls(signer, chainId, [
+      { to: lpToken, data: encodePermit(lpContract, permit) },
+      { to: STAKING_CONTRACT_ADDRESS, data: contract.interface.encodeFunctionData('stake', [lpToken, amount.value]) },
+    ]);
+    const status = await waitForCalls(signer, batchId);
+    if (status.timedOut) throw new Error('The wallet has not reported the permit and stake batch yet; check your wallet or the explorer');
+    recordBatch(label, chainId, status.receipts);
+    if (!status.success) throw new Error('Permit and stake batch failed');
+  };
+
+  const stake = async (lpToken: string, amount: TokenAmount, approvalMode: ApprovalMode = 'exact') => {
     try {
-      if (!contract || !signer) throw new Error('Contract not initialized');
+      if (!contract) throw new Error('Contract not initialized');
+      if (!signer) throw new Error('Wallet not connected');
       const tokenContract = new ethers.Contract(lpToken, ERC20_ABI, signer);
       
       // Check allowance first
       const currentAllowance = await tokenContract.allowance(await signer.getAddress(), STAKING_CONTRACT_ADDRESS);
-      const amountInWei = ethers.parseEther(amount);
-      
+
       // Only approve if needed
-      if (currentAllowance < amountInWei) {
-        const approveTx = await tokenContract.approve(STAKING_CONTRACT_ADDRESS, amountInWei);
-        await approveTx.wait();
+      if (currentAllowance < amount.value) {
+        if (approvalMode === 'permit') {
+          await stakeWithPermit(lpToken, amount);
+          return;
+        }
+        const approveAmount = approvalMode === 'unlimited' ? ethers.MaxUint256 : amount.value;
+        const approveLabel = approvalMode === 'unlimited' ? 'Approve unlimited LP' : `Approve ${formatTokenAmount(amount)} LP`;
+        if (!(await sendWrite(approveLabel, tokenContract, 'approve', [STAKING_CONTRACT_ADDRESS, approveAmount]))) return;
       }
 
       // Proceed with staking
-      const tx = await contract.stake(lpToken, amountInWei);
-      await tx.wait();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to stake';
+      await sendWrite(`Stake ${formatTokenAmount(amount)} LP`, contract, 'stake', [lpToken, amount.value]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to stake').message;
       setError(new Error(errorMessage));
     }
   };
 
-  const unstake = async (lpToken: string, amount: string) => {
+  const unstake = async (lpToken: string, amount: TokenAmount) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
-      const tx = await contract.unstake(lpToken, ethers.parseEther(amount));
-      await tx.wait();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to unstake';
+      if (!signer) throw new Error('Wallet not connected');
+      await sendWrite(`Unstake ${formatTokenAmount(amount)} LP`, contract, 'unstake', [lpToken, amount.value]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to unstake').message;
       setError(new Error(errorMessage));
     }
   };
@@ -286,10 +372,10 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
   const claimRewards = async (lpToken: string) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
-      const tx = await contract.claimRewards(lpToken);
-      await tx.wait();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to claim rewards';
+      if (!signer) throw new Error('Wallet not connected');
+      await sendWrite(`Claim rewards from ${truncateAddress(lpToken)}`, contract, 'claimRewards', [lpToken]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to claim rewards').message;
       setError(new Error(errorMessage));
     }
   };
@@ -298,10 +384,10 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
   const proposeSetHourlyRewardRate = async (newRate: string) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
-      const tx = await contract.proposeSetHourlyRewardRate(ethers.parseEther(newRate));
-      await tx.wait();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to propose set hourly reward rate';
+      if (!signer) throw new Error('Wallet not connected');
+      await sendWrite(`Propose hourly rate of ${newRate}`, contract, 'proposeSetHourlyRewardRate', [ethers.parseEther(newRate)]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to propose set hourly reward rate').message;
       setError(new Error(errorMessage));
     }
   };
@@ -309,11 +395,11 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
   const proposeUpdatePairWeights = async (lpTokens: string[], weights: string[]) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
+      if (!signer) throw new Error('Wallet not connected');
       const weightsInWei = weights.map((w) => ethers.parseEther(w));
-      const tx = await contract.proposeUpdatePairWeights(lpTokens, weightsInWei);
-      await tx.wait();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to propose update pair weights';
+      await sendWrite('Propose pair weight update', contract, 'proposeUpdatePairWeights', [lpTokens, weightsInWei]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to propose update pair weights').message;
       setError(new Error(errorMessage));
     }
   };
@@ -321,10 +407,10 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
   const proposeAddPair = async (lpToken: string, pairName: string, platform: string, weight: string) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
-      const tx = await contract.proposeAddPair(lpToken, pairName, platform, ethers.parseEther(weight));
-      await tx.wait();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to propose add pair';
+      if (!signer) throw new Error('Wallet not connected');
+      await sendWrite(`Propose adding ${pairName}`, contract, 'proposeAddPair', [lpToken, pairName, platform, ethers.parseEther(weight)]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to propose add pair').message;
       setError(new Error(errorMessage));
     }
   };
@@ -332,10 +418,10 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
   const proposeRemovePair = async (lpToken: string) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
-      const tx = await contract.proposeRemovePair(lpToken);
-      await tx.wait();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to propose remove pair';
+      if (!signer) throw new Error('Wallet not connected');
+      await sendWrite(`Propose removing ${truncateAddress(lpToken)}`, contract, 'proposeRemovePair', [lpToken]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to propose remove pair').message;
       setError(new Error(errorMessage));
     }
   };
@@ -343,10 +429,10 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
   const proposeChangeSigner = async (oldSigner: string, newSigner: string) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
-      const tx = await contract.proposeChangeSigner(oldSigner, newSigner);
-      await tx.wait();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to propose change signer';
+      if (!signer) throw new Error('Wallet not connected');
+      await sendWrite('Propose signer change', contract, 'proposeChangeSigner', [oldSigner, newSigner]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to propose change signer').message;
       setError(new Error(errorMessage));
     }
   };
@@ -354,10 +440,10 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
   const proposeWithdrawRewards = async (recipient: string, amount: string) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
-      const tx = await contract.proposeWithdrawRewards(recipient, ethers.parseUnits(amount, rewardToken.decimals));
-      await tx.wait();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to propose withdraw rewards';
+      if (!signer) throw new Error('Wallet not connected');
+      await sendWrite(`Propose withdrawing ${amount} ${rewardToken.symbol}`, contract, 'proposeWithdrawRewards', [recipient, ethers.parseUnits(amount, rewardToken.decimals)]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to propose withdraw rewards').message;
       setError(new Error(errorMessage));
     }
   };
@@ -365,10 +451,10 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
   const approveAction = async (actionId: number) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
-      const tx = await contract.approveAction(actionId);
-      await tx.wait();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to approve action';
+      if (!signer) throw new Error('Wallet not connected');
+      await sendWrite(`Approve action #${actionId}`, contract, 'approveAction', [actionId]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to approve action').message;
       setError(new Error(errorMessage));
     }
   };
@@ -376,20 +462,20 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
   const executeAction = async (actionId: number) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
-      const tx = await contract.executeAction(actionId);
-      await tx.wait();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to execute action';
+      if (!signer) throw new Error('Wallet not connected');
+      await sendWrite(`Execute action #${actionId}`, contract, 'executeAction', [actionId]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to execute action').message;
       setError(new Error(errorMessage));
     }
   };
 
   const getPendingRewards = async (userAddress: string, lpToken: string) => {
     try {
-      if (!contract || !provider || !rewardTokenContract) throw new Error('Contract not initialized');
+      if (!contract) throw new Error('Contract not initialized');
       return await contract.earned(userAddress, lpToken);
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get pending rewards';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get pending rewards').message;
       setError(new Error(errorMessage));
       return BigInt(0);
     }
@@ -401,8 +487,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
       if (!contract) throw new Error('Contract not initialized');
       const [amount, pendingRewards, lastRewardTime] = await contract.getUserStakeInfo(userAddress, lpToken);
       return { amount, pendingRewards, lastRewardTime };
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get user stake info';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get user stake info').message;
       setError(new Error(errorMessage));
       return { amount: BigInt(0), pendingRewards: BigInt(0), lastRewardTime: BigInt(0) };
     }
@@ -414,8 +500,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
       if (!contract) throw new Error('Contract not initialized');
       const [lpToken, pairName, platform, weight, isActive] = await contract.pairs(address);
       return { lpToken, pairName, platform, weight, isActive };
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get pair info';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get pair info').message;
       setError(new Error(errorMessage));
       return { lpToken: '', pairName: '', platform: '', weight: BigInt(0), isActive: false };
     }
@@ -425,20 +511,153 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return await contract.getPairs();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get pairs';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get pairs').message;
       setError(new Error(errorMessage));
       return [];
     }
   };
 
+  // Everything proposeAddPair needs to be sane about an LP token: a V2 pair against the reward token, not yet added, room left
+  const validatePair = async (lpToken: string): Promise<PairValidation> => {
+    try {
+      if (!contract) throw new Error('Contract not initialized');
+      if (!ethers.isAddress(lpToken)) return emptyPairValidation(lpToken, ['Invalid LP token address format']);
+      if ((await readProvider.getCode(lpToken)) === '0x') return emptyPairValidation(lpToken, ['Address is not a contract']);
+
+      const lpContract = new ethers.Contract(lpToken, UNIV2_ABI, readProvider);
+      const [factory, token0, token1, reserves, pairs, maxPairs] = await executeCalls(readProvider, [
+        { contract: lpContract, method: 'factory' },
+        { contract: lpContract, method: 'token0' },
+        { contract: lpContract, method: 'token1' },
+        { contract: lpContract, method: 'getReserves' },
+        { contract, method: 'getPairs' },
+        { contract, method: 'MAX_PAIRS' },
+      ]);
+      if (!factory.success || !token0.success || !token1.success || !reserves.success) {
+        return emptyPairValidation(lpToken, ['Address is not a Uniswap V2 pair']);
+      }
+
+      const tokens = [token0.value as string, token1.value as string];
+      const tokenInfo = await executeCalls(
+        readProvider,
+        tokens.flatMap((token) => {
+          const tokenContract = new ethers.Contract(token, ERC20_ABI, readProvider);
+          return [
+            { contract: tokenContract, method: 'symbol' },
+            { contract: tokenContract, method: 'decimals' },
+          ];
+        })
+      );
+      const [symbol0, decimals0, symbol1, decimals1] = tokenInfo;
+      const [reserve0, reserve1] = reserves.value as ethers.Result;
+
+      const errors: string[] = [];
+      if (!tokens.some((token) => token.toLowerCase() === REWARD_TOKEN_ADDRESS.toLowerCase())) {
+        errors.push(`Pair does not contain the reward token${rewardToken.symbol ? ` (${rewardToken.symbol})` : ''}`);
+      }
+      const existing = pairs.success ? (pairs.value as ethers.Result).map((pair: ethers.Result) => pair.lpToken as string) : [];
+      if (existing.some((address) => address.toLowerCase() === lpToken.toLowerCase())) {
+        errors.push('Pair has already been added');
+      }
+      if (maxPairs.success && BigInt(existing.length) >= (maxPairs.value as bigint)) {
+        errors.push(`The contract already holds the maximum of ${maxPairs.value} pairs`);
+      }
+
+      return {
+        lpToken,
+        isV2Pair: true,
+        factory: factory.value as string,
+        platform: getFactoryPlatform(factory.value as string),
+        token0: tokens[0],
+        token1: tokens[1],
+        symbol0: symbol0.success ? (symbol0.value as string) : '',
+        symbol1: symbol1.success ? (symbol1.value as string) : '',
+        decimals0: decimals0.success ? Number(decimals0.value) : 18,
+        decimals1: decimals1.success ? Number(decimals1.value) : 18,
+        reserve0,
+        reserve1,
+        errors,
+      };
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to validate pair').message;
+      return emptyPairValidation(lpToken, [errorMessage]);
+    }
+  };
+
+  // Batched reads
+  const multicall = async (calls: ContractCall[]) => {
+    try {
+      return await executeCalls(readProvider, calls);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to batch contract calls').message;
+      setError(new Error(errorMessage));
+      return calls.map((): CallResult => ({ success: false, value: null }));
+    }
+  };
+
+  // Everything the pool table needs for one refresh, in two batched round trips
+  const getPoolsSnapshot = async (userAddress?: string): Promise<PoolsSnapshot> => {
+    try {
+      if (!contract) throw new Error('Contract not initialized');
+      const [pairsResult, totalWeightResult, hourlyRateResult] = await executeCalls(readProvider, [
+        { contract, method: 'getPairs' },
+        { contract, method: 'totalWeight' },
+        { contract, method: 'hourlyRewardRate' },
+      ]);
+      if (!pairsResult.success) throw new Error('Failed to get pairs');
+      const pairs: SCPairData[] = (pairsResult.value as ethers.Result).map((pair: ethers.Result) => ({
+        lpToken: pair.lpToken,
+        pairName: pair.pairName,
+        platform: pair.platform,
+        weight: pair.weight,
+        isActive: pair.isActive,
+      }));
+
+      const callsPerPair = userAddress ? 3 : 1;
+      const pairCalls = pairs.flatMap((pair): ContractCall[] => {
+        const lpContract = new ethers.Contract(pair.lpToken, UNIV2_ABI, readProvider);
+        const calls: ContractCall[] = [{ contract: lpContract, method: 'balanceOf', args: [STAKING_CONTRACT_ADDRESS] }];
+        if (userAddress) {
+          calls.push({ contract, method: 'earned', args: [userAddress, pair.lpToken] });
+          calls.push({ contract, method: 'getUserStakeInfo', args: [userAddress, pair.lpToken] });
+        }
+        return calls;
+      });
+      const results = await executeCalls(readProvider, pairCalls);
+
+      return {
+        hourlyRewardRate: hourlyRateResult.success ? (hourlyRateResult.value as bigint) : BigInt(0),
+        totalWeight: totalWeightResult.success ? (totalWeightResult.value as bigint) : BigInt(0),
+        pools: pairs.map((pair, i) => {
+          const [tvl, earned, stakeInfo] = results.slice(i * callsPerPair, (i + 1) * callsPerPair);
+          let userStake: UserStakeInfo | null = null;
+          if (stakeInfo?.success) {
+            const [amount, pendingRewards, lastRewardTime] = stakeInfo.value as ethers.Result;
+            userStake = { amount, pendingRewards, lastRewardTime };
+          }
+          return {
+            pair,
+            tvl: tvl.success ? (tvl.value as bigint) : BigInt(0),
+            earned: earned?.success ? (earned.value as bigint) : BigInt(0),
+            stakeInfo: userStake,
+          };
+        }),
+      };
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to load pools').message;
+      setError(new Error(errorMessage));
+      return { hourlyRewardRate: BigInt(0), totalWeight: BigInt(0), pools: [] };
+    }
+  };
+
   // Contract state
   const getAdminRole = async () => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return await contract.ADMIN_ROLE();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get admin role';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get admin role').message;
       setError(new Error(errorMessage));
       return '';
     }
@@ -449,8 +668,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
       if (!contract) throw new Error('Contract not initialized');
       const adminRole = await getAdminRole();
       return await contract.hasRole(adminRole, address);
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to check role';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to check role').message;
       setError(new Error(errorMessage));
       return false;
     }
@@ -460,8 +679,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return await contract.getAddress();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get contract address';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get contract address').message;
       setError(new Error(errorMessage));
       return '';
     }
@@ -471,8 +690,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return Number(ethers.formatEther(await contract.MAX_WEIGHT()));
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get max weight';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get max weight').message;
       setError(new Error(errorMessage));
       return 0;
     }
@@ -482,8 +701,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return await contract.REQUIRED_APPROVALS();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get required approvals';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get required approvals').message;
       setError(new Error(errorMessage));
       return BigInt(0);
     }
@@ -493,8 +712,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return await contract.hourlyRewardRate();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get hourly reward rate';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get hourly reward rate').message;
       setError(new Error(errorMessage));
       return BigInt(0);
     }
@@ -508,8 +727,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
         return BigInt(1);
       }
       return totalWeight;
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get total weight';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get total weight').message;
       setError(new Error(errorMessage));
       return BigInt(1);
     }
@@ -519,8 +738,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return await contract.rewardToken();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get reward token';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get reward token').message;
       setError(new Error(errorMessage));
       return '';
     }
@@ -530,8 +749,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return await contract.getSigners();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get signers';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get signers').message;
       setError(new Error(errorMessage));
       return [];
     }
@@ -541,8 +760,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return await contract.actions(BigInt(actionId));
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get actions';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get actions').message;
       setError(new Error(errorMessage));
       return [];
     }
@@ -552,8 +771,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return await contract.actionCounter();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get action counter';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get action counter').message;
       setError(new Error(errorMessage));
       return BigInt(0);
     }
@@ -561,12 +780,12 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
 
   const getTVL = async (lpToken: string) => {
     try {
-      if (!contract || !provider) throw new Error('Contract not initialized');
-      const univ2Contract = new ethers.Contract(lpToken, UNIV2_ABI, provider);
+      if (!contract) throw new Error('Contract not initialized');
+      const univ2Contract = new ethers.Contract(lpToken, UNIV2_ABI, readProvider);
       const balance = await univ2Contract.balanceOf(STAKING_CONTRACT_ADDRESS);
       return balance;
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get TVL';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get TVL').message;
       setError(new Error(errorMessage));
       return BigInt(0);
     }
@@ -574,26 +793,94 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
 
   const getERC20Balance = async (address: string, tokenAddress: string) => {
     try {
-      if (!provider) throw new Error('Provider not initialized');
-      const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+      const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, readProvider);
       const balance = await tokenContract.balanceOf(address);
       return balance;
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get ERC20 balance';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get ERC20 balance').message;
       setError(new Error(errorMessage));
       return BigInt(0);
     }
   };
 
+  const getStakeApproval = async (lpToken: string): Promise<StakeApproval> => {
+    try {
+      if (!signer) throw new Error('Wallet not connected');
+      const owner = await signer.getAddress();
+      const { chainId } = await signer.provider.getNetwork();
+      const lpContract = new ethers.Contract(lpToken, UNIV2_ABI, readProvider);
+      const [allowance, permitSupported, batchSupported] = await Promise.all([
+        lpContract.allowance(owner, STAKING_CONTRACT_ADDRESS),
+        supportsPermit(lpContract, owner, chainId),
+        supportsBatchedCalls(signer, Number(chainId)),
+      ]);
+      return { allowance, permitSupported, batchSupported };
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get allowance').message;
+      setError(new Error(errorMessage));
+      return { allowance: BigInt(0), permitSupported: false, batchSupported: false };
+    }
+  };
+
+  // Allowance of every LP token and the reward token toward the staking contract, in one batched read
+  const getAllowances = async (owner: string): Promise<TokenAllowance[]> => {
+    try {
+      if (!contract) throw new Error('Contract not initialized');
+      const pairs: SCPairData[] = await contract.getPairs();
+      const tokens = [
+        ...pairs.map((pair) => ({ token: pair.lpToken, label: pair.pairName, isRewardToken: false })),
+        { token: REWARD_TOKEN_ADDRESS, label: rewardToken.symbol || 'Reward token', isRewardToken: true },
+      ];
+      const results = await executeCalls(
+        readProvider,
+        tokens.flatMap(({ token }) => {
+          const tokenContract = new ethers.Contract(token, ERC20_ABI, readProvider);
+          return [
+            { contract: tokenContract, method: 'allowance', args: [owner, STAKING_CONTRACT_ADDRESS] },
+            { contract: tokenContract, method: 'symbol' },
+            { contract: tokenContract, method: 'decimals' },
+          ];
+        })
+      );
+      return tokens.map((token, i) => {
+        const [allowance, symbol, decimals] = results.slice(i * 3, i * 3 + 3);
+        return {
+          ...token,
+          allowance: allowance.success ? (allowance.value as bigint) : BigInt(0),
+          symbol: symbol.success ? (symbol.value as string) : '',
+          decimals: decimals.success ? Number(decimals.value) : 18,
+        };
+      });
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get allowances').message;
+      setError(new Error(errorMessage));
+      return [];
+    }
+  };
+
+  const setAllowance = async (token: string, symbol: string, amount: TokenAmount) => {
+    try {
+      if (!signer) throw new Error('Wallet not connected');
+      const tokenContract = new ethers.Contract(token, ERC20_ABI, signer);
+      const label =
+        amount.value === BigInt(0)
+          ? `Revoke ${symbol} approval`
+          : `Approve ${isUnlimitedAllowance(amount.value) ? 'unlimited' : formatTokenAmount(amount)} ${symbol}`;
+      await sendWrite(label, tokenContract, 'approve', [STAKING_CONTRACT_ADDRESS, amount.value]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to update allowance').message;
+      setError(new Error(errorMessage));
+    }
+  };
+
   const getTokenInfo = async (address: string) => {
     try {
-      if (!provider) throw new Error('Provider not initialized');
-      const tokenContract = new ethers.Contract(address, ERC20_ABI, provider);
+      const tokenContract = new ethers.Contract(address, ERC20_ABI, readProvider);
       const symbol = await tokenContract.symbol();
       const decimals = await tokenContract.decimals();
       return { address, symbol, decimals };
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get token info';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get token info').message;
       setError(new Error(errorMessage));
       return { address: '', symbol: '', decimals: 0 };
     }
@@ -603,8 +890,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return await contract.getActionApproval(actionId);
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get action approval';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get action approval').message;
       setError(new Error(errorMessage));
       return [];
     }
@@ -614,8 +901,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return await contract.getActionPairs(actionId);
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get action pairs';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get action pairs').message;
       setError(new Error(errorMessage));
       return [];
     }
@@ -625,8 +912,8 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
       return await contract.getActionWeights(actionId);
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to get action weights';
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to get action weights').message;
       setError(new Error(errorMessage));
       return [];
     }
@@ -637,10 +924,43 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
   const rejectAction = async (actionId: number) => {
     try {
       if (!contract) throw new Error('Contract not initialized');
-      const tx = await contract.rejectAction(actionId);
-      await tx.wait();
-    } catch (err: any) {
-      const errorMessage = err.reason || 'Failed to reject action';
+      if (!signer) throw new Error('Wallet not connected');
+      await sendWrite(`Reject action #${actionId}`, contract, 'rejectAction', [actionId]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to reject action').message;
+      setError(new Error(errorMessage));
+    }
+  };
+
+  const isActionExpired = async (actionId: number) => {
+    try {
+      if (!contract) throw new Error('Contract not initialized');
+      return await contract.isActionExpired(actionId);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to check action expiry').message;
+      setError(new Error(errorMessage));
+      return false;
+    }
+  };
+
+  const handleExpiredAction = async (actionId: number) => {
+    try {
+      if (!contract) throw new Error('Contract not initialized');
+      if (!signer) throw new Error('Wallet not connected');
+      await sendWrite(`Mark action #${actionId} expired`, contract, 'handleExpiredAction', [actionId]);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to handle expired action').message;
+      setError(new Error(errorMessage));
+    }
+  };
+
+  const cleanupExpiredActions = async () => {
+    try {
+      if (!contract) throw new Error('Contract not initialized');
+      if (!signer) throw new Error('Wallet not connected');
+      await sendWrite('Clean up expired actions', contract, 'cleanupExpiredActions', []);
+    } catch (err) {
+      const errorMessage = decodeContractError(err, 'Failed to clean up expired actions').message;
       setError(new Error(errorMessage));
     }
   };
@@ -650,6 +970,7 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
       value={{
         contract,
         rewardTokenContract,
+        isReadOnly: !signer,
         isLoading,
         error,
         // Core staking functions
@@ -671,6 +992,10 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
         // Pair info
         getPairInfo,
         getPairs,
+        validatePair,
+        // Batched reads
+        multicall,
+        getPoolsSnapshot,
         // Contract state
         getHourlyRewardRate,
         getMaxWeight,
@@ -685,6 +1010,9 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
         // Token info
         getTokenInfo,
         getERC20Balance,
+        getStakeApproval,
+        getAllowances,
+        setAllowance,
         // Action info
         getActionApproval,
         getActionPairs,
@@ -694,6 +1022,10 @@ export const ContractProvider = ({ children }: ContractProviderProps) => {
         getContractAddress,
         // Reject action
         rejectAction,
+        // Expiry
+        isActionExpired,
+        handleExpiredAction,
+        cleanupExpiredActions,
       }}
     >
       {children}
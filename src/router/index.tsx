@@ -1,7 +1,12 @@
 import Layout from '@/layouts';
 import Admin from '@/pages/admin';
+import Proposal from '@/pages/admin/proposal';
+import Roles from '@/pages/admin/roles';
 import Error404 from '@/pages/error404';
 import Home from '@/pages/home';
+import History from '@/pages/history';
+import Approvals from '@/pages/approvals';
+import Safe from '@/pages/safe';
 import { createBrowserRouter } from 'react-router-dom';
 
 const router = createBrowserRouter([
@@ -14,10 +19,30 @@ const router = createBrowserRouter([
         path: '/',
         element: <Home />,
       },
+      {
+        path: '/history',
+        element: <History />,
+      },
+      {
+        path: '/approvals',
+        element: <Approvals />,
+      },
+      {
+        path: '/safe',
+        element: <Safe />,
+      },
       {
         path: '/admin',
         element: <Admin />,
       },
+      {
+        path: '/admin/proposals/:id',
+        element: <Proposal />,
+      },
+      {
+        path: '/admin/roles',
+        element: <Roles />,
+      },
     ],
   },
 ]);
@@ -0,0 +1,4 @@
+import { atom } from 'jotai';
+
+// How often rewards are assumed to be claimed and restaked when turning APR into APY
+export const compoundsPerYearAtom = atom<number>(365);
@@ -0,0 +1,15 @@
+import { atom } from 'jotai';
+
+export interface PreflightRequest {
+  label: string;
+  // Set when the simulation succeeded
+  gasLimit?: bigint;
+  gasCost?: bigint;
+  // Set when the simulation reverted; the dialog then refuses to submit
+  revertReason?: string;
+  // Set when the simulation itself could not run (e.g. RPC down); submitting is still allowed
+  warning?: string;
+  resolve: (confirmed: boolean) => void;
+}
+
+export const preflightAtom = atom<PreflightRequest | null>(null);
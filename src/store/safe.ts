@@ -0,0 +1,15 @@
+import { atom } from 'jotai';
+import { atomWithStorage } from 'jotai/utils';
+import { QueuedSafeTransaction, SafeInfo } from '@/types';
+
+// Safe the connected owner acts for; empty to act as the connected account itself
+export const safeAddressAtom = atomWithStorage<string>('lp-staking:safe-address', '', undefined, { getOnInit: true });
+
+// Safe transactions waiting for signatures or execution, persisted so owners can sign across sessions
+export const safeQueueAtom = atomWithStorage<QueuedSafeTransaction[]>('lp-staking:safe-queue', [], undefined, { getOnInit: true });
+
+// Loaded by useSafeWatcher for whichever Safe is being acted for
+export const safeInfoAtom = atom<SafeInfo | null>(null);
+
+// The connected account has code, i.e. the wallet itself is a Safe or another smart-contract wallet
+export const connectedContractWalletAtom = atom(false);
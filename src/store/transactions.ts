@@ -0,0 +1,5 @@
+import { atomWithStorage } from 'jotai/utils';
+import { TrackedTransaction } from '@/types';
+
+// Persisted, and read on init, so pending transactions survive a reload and can be re-attached on startup
+export const transactionsAtom = atomWithStorage<TrackedTransaction[]>('lp-staking:transactions', [], undefined, { getOnInit: true });
@@ -1,3 +1,6 @@
+import { AprBreakdown } from '@/utils/apr';
+import { SafeTransaction } from '@/utils/safe';
+
 interface UserInfo {
   address: string | null;
   isConnected: boolean;
@@ -20,9 +23,23 @@ interface PairInfo {
   weight: bigint;
   isActive: boolean;
   apr: number;
+  aprBreakdown: AprBreakdown;
   tvl: number;
+  // USD values from the LP token's reserve-based price; null when it cannot be priced
+  tvlUsd: number | null;
+  myStake: number;
+  myStakeUsd: number | null;
   myShare: number;
   myEarnings: number;
+  // Raw on-chain values (wei) behind the figures above, used by the live rewards ticker
+  tvlWei: bigint;
+  myStakeWei: bigint;
+  myEarningsWei: bigint;
+  myPendingRewardsWei: bigint;
+  myLastRewardTime: bigint;
+  pairHourlyRewardsWei: bigint;
+  // Where the LP and reward token prices behind the APR came from; null when APR is token-denominated
+  priceSource: string | null;
 }
 
 interface TokenInfo {
@@ -37,6 +54,19 @@ interface UserStakeInfo {
   lastRewardTime: bigint;
 }
 
+interface PoolSnapshot {
+  pair: SCPairData;
+  tvl: bigint;
+  earned: bigint;
+  stakeInfo: UserStakeInfo | null;
+}
+
+interface PoolsSnapshot {
+  hourlyRewardRate: bigint;
+  totalWeight: bigint;
+  pools: PoolSnapshot[];
+}
+
 interface ContractEvent {
   eventName: string;
   args: any[];
@@ -45,6 +75,115 @@ interface ContractEvent {
   blockTimestamp?: number;
 }
 
+interface StakingActivity {
+  type: 'stake' | 'unstake' | 'claim';
+  lpToken: string;
+  amount: bigint;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+interface ClaimItem {
+  lpToken: string;
+  pairName: string;
+  amount: bigint;
+  status: 'queued' | 'pending' | 'confirmed' | 'failed' | 'cancelled' | 'unknown';
+  transactionHash?: string;
+  error?: string;
+}
+
+// How stake() covers a missing allowance: a signed EIP-2612 permit batched with the stake, or an approve transaction
+type ApprovalMode = 'permit' | 'exact' | 'unlimited';
+
+interface StakeApproval {
+  allowance: bigint;
+  permitSupported: boolean;
+  batchSupported: boolean;
+}
+
+interface TokenAllowance {
+  token: string;
+  // Pair name for LP tokens, symbol for the reward token
+  label: string;
+  symbol: string;
+  decimals: number;
+  allowance: bigint;
+  isRewardToken: boolean;
+}
+
+// On-chain checks run before proposing a new pair; `errors` is empty when the pair can be proposed
+interface PairValidation {
+  lpToken: string;
+  isV2Pair: boolean;
+  factory: string;
+  // Platform name from the known-factory registry, empty for unknown factories
+  platform: string;
+  token0: string;
+  token1: string;
+  symbol0: string;
+  symbol1: string;
+  decimals0: number;
+  decimals1: number;
+  reserve0: bigint;
+  reserve1: bigint;
+  errors: string[];
+}
+
+// One address's access as rebuilt from role events and confirmed with hasRole()
+interface RoleMember {
+  address: string;
+  isDefaultAdmin: boolean;
+  isAdmin: boolean;
+  isSigner: boolean;
+  // Mismatches between role membership, the signer list and the event history
+  issues: string[];
+}
+
+interface SignerChange {
+  oldSigner: string;
+  newSigner: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+// A staking-contract call built as a Safe transaction, collecting owner signatures until it can be executed
+interface QueuedSafeTransaction {
+  safeTxHash: string;
+  safeAddress: string;
+  chainId: number;
+  label: string;
+  tx: SafeTransaction;
+  // Owner address -> EIP-712 signature
+  signatures: Record<string, string>;
+  status: 'queued' | 'executed' | 'failed' | 'replaced';
+  executionHash?: string;
+  // Block the transaction was queued at, where the search for its execution starts
+  createdBlock: number;
+  createdAt: number;
+}
+
+// Owners, threshold and nonce of the Safe the connected wallet acts for
+interface SafeInfo {
+  address: string;
+  owners: string[];
+  threshold: number;
+  nonce: number;
+  version: string;
+}
+
+interface TrackedTransaction {
+  hash: string;
+  label: string;
+  status: 'pending' | 'confirmed' | 'failed';
+  confirmations: number;
+  timestamp: number;
+  chainId: number;
+  blockNumber?: number;
+  error?: string;
+}
+
 interface Action {
   id: number;
   actionType: number;
@@ -64,6 +203,8 @@ interface Action {
   approvedBy: string[];
   proposedTime: number;
   rejected: boolean;
+  proposer: string;
+  rejectedBy: string[];
 }
 
-export type { UserInfo, PairInfo, SCPairData, UserStakeInfo, TokenInfo, ContractEvent, Action };
+export type { UserInfo, PairInfo, SCPairData, UserStakeInfo, PoolSnapshot, PoolsSnapshot, TokenInfo, ContractEvent, StakingActivity, ClaimItem, ApprovalMode, StakeApproval, TokenAllowance, PairValidation, RoleMember, SignerChange, QueuedSafeTransaction, SafeInfo, TrackedTransaction, Action };
@@ -0,0 +1,144 @@
+export const HOURS_PER_YEAR = 24 * 365;
+
+export const COMPOUNDING_OPTIONS = [
+  { label: 'Daily', periodsPerYear: 365 },
+  { label: 'Weekly', periodsPerYear: 52 },
+  { label: 'Monthly', periodsPerYear: 12 },
+] as const;
+
+export interface AprInputs {
+  // Contract-wide emission in whole reward tokens per hour
+  hourlyRewardRate: number;
+  weight: bigint;
+  totalWeight: bigint;
+  // Staked LP tokens in the pair, in whole tokens
+  tvl: number;
+  lpPriceUsd: number | null;
+  rewardPriceUsd: number | null;
+  compoundsPerYear: number;
+}
+
+export interface AprBreakdown {
+  rewardShare: number;
+  pairHourlyRewards: number;
+  yearlyRewards: number;
+  yearlyRewardsUsd: number | null;
+  tvlUsd: number | null;
+  lpPriceUsd: number | null;
+  rewardPriceUsd: number | null;
+  // 'usd' compares USD values; 'token' compares reward tokens to LP tokens when either price is missing
+  denomination: 'usd' | 'token';
+  apr: number;
+  apy: number;
+  compoundsPerYear: number;
+  zeroTvl: boolean;
+  zeroWeight: boolean;
+}
+
+export const aprToApy = (apr: number, compoundsPerYear: number) => {
+  if (compoundsPerYear <= 0) return apr;
+  return (Math.pow(1 + apr / 100 / compoundsPerYear, compoundsPerYear) - 1) * 100;
+};
+
+/**
+ * APR and APY of one pair. The pair receives hourlyRewardRate × weight / totalWeight per hour;
+ * figures are percentages and are 0 when the pair has no weight or nothing staked.
+ */
+export const computeApr = ({ hourlyRewardRate, weight, totalWeight, tvl, lpPriceUsd, rewardPriceUsd, compoundsPerYear }: AprInputs): AprBreakdown => {
+  const zeroWeight = weight === 0n || totalWeight === 0n;
+  const rewardShare = zeroWeight ? 0 : Number((weight * 1_000_000n) / totalWeight) / 1_000_000;
+  const pairHourlyRewards = hourlyRewardRate * rewardShare;
+  const yearlyRewards = pairHourlyRewards * HOURS_PER_YEAR;
+  const yearlyRewardsUsd = rewardPriceUsd !== null ? yearlyRewards * rewardPriceUsd : null;
+  const tvlUsd = lpPriceUsd !== null ? tvl * lpPriceUsd : null;
+  const denomination = yearlyRewardsUsd !== null && tvlUsd !== null ? 'usd' : 'token';
+  // A priced pool worth $0 is an empty pool, not a missing price, so it must not fall back to the token ratio
+  const zeroTvl = tvl <= 0 || tvlUsd === 0;
+
+  let apr = 0;
+  if (!zeroWeight && !zeroTvl) {
+    apr = yearlyRewardsUsd !== null && tvlUsd !== null ? (yearlyRewardsUsd / tvlUsd) * 100 : (yearlyRewards / tvl) * 100;
+  }
+
+  return {
+    rewardShare,
+    pairHourlyRewards,
+    yearlyRewards,
+    yearlyRewardsUsd,
+    tvlUsd,
+    lpPriceUsd,
+    rewardPriceUsd,
+    denomination,
+    apr,
+    apy: aprToApy(apr, compoundsPerYear),
+    compoundsPerYear,
+    zeroTvl,
+    zeroWeight,
+  };
+};
+
+export interface SimulationInputs {
+  pairHourlyRewards: number;
+  // Pool and stake sizes in whole LP tokens
+  tvl: number;
+  currentStake: number;
+  additionalStake: number;
+  // Growth of the pool from other stakers after this stake, in percent
+  tvlGrowthPct: number;
+  horizonHours: number;
+}
+
+export interface SimulationResult {
+  poolShare: number;
+  dilutedShare: number;
+  hourly: number;
+  daily: number;
+  monthly: number;
+  yearly: number;
+  horizon: number;
+}
+
+/** Projects a position's rewards at a constant emission rate, after the stake and after the pool grows. */
+export const simulateRewards = ({ pairHourlyRewards, tvl, currentStake, additionalStake, tvlGrowthPct, horizonHours }: SimulationInputs): SimulationResult => {
+  const position = currentStake + additionalStake;
+  const poolAfterStake = tvl + additionalStake;
+  const poolShare = poolAfterStake > 0 ? position / poolAfterStake : 0;
+  const grownPool = poolAfterStake * (1 + Math.max(tvlGrowthPct, 0) / 100);
+  const dilutedShare = grownPool > 0 ? position / grownPool : 0;
+  const hourly = pairHourlyRewards * dilutedShare;
+  return {
+    poolShare,
+    dilutedShare,
+    hourly,
+    daily: hourly * 24,
+    monthly: hourly * 24 * 30,
+    yearly: hourly * HOURS_PER_YEAR,
+    horizon: hourly * horizonHours,
+  };
+};
+
+const formatNumber = (value: number, digits = 4) => value.toLocaleString('en-US', { maximumFractionDigits: digits });
+
+/** Human-readable derivation of a breakdown, one step per line, for tooltips. */
+export const describeApr = (breakdown: AprBreakdown, hourlyRewardRate: number, rewardSymbol: string) => {
+  const lines = [
+    `Pair emission: ${formatNumber(hourlyRewardRate)} ${rewardSymbol}/h × ${formatNumber(breakdown.rewardShare * 100, 2)}% weight share = ${formatNumber(breakdown.pairHourlyRewards)} ${rewardSymbol}/h`,
+    `Yearly rewards: ${formatNumber(breakdown.pairHourlyRewards)} × ${HOURS_PER_YEAR} h = ${formatNumber(breakdown.yearlyRewards, 2)} ${rewardSymbol}` +
+      (breakdown.yearlyRewardsUsd !== null ? ` ($${formatNumber(breakdown.yearlyRewardsUsd, 2)})` : ''),
+  ];
+  if (breakdown.zeroWeight) {
+    lines.push('This pair has zero weight and earns no rewards.');
+    return lines;
+  }
+  if (breakdown.zeroTvl) {
+    lines.push('Nothing is staked yet, so APR is undefined.');
+    return lines;
+  }
+  if (breakdown.denomination === 'usd') {
+    lines.push(`APR: $${formatNumber(breakdown.yearlyRewardsUsd ?? 0, 2)} / $${formatNumber(breakdown.tvlUsd ?? 0, 2)} TVL = ${breakdown.apr.toFixed(2)}%`);
+  } else {
+    lines.push(`APR (no USD prices): ${formatNumber(breakdown.yearlyRewards, 2)} ${rewardSymbol} per year / staked LP tokens = ${breakdown.apr.toFixed(2)}%`);
+  }
+  lines.push(`APY with ${breakdown.compoundsPerYear} compounds per year: ${breakdown.apy.toFixed(2)}%`);
+  return lines;
+};
@@ -0,0 +1,114 @@
+import { ethers } from 'ethers';
+import { StakingActivity, TokenInfo } from '@/types';
+import { PriceOracle } from '@/utils/priceOracle';
+
+/** Source of a token's USD price at a point in time (unix seconds); null when it has no quote. */
+export interface HistoricalPriceSource {
+  name: string;
+  getPrice: (tokenAddress: string, timestamp: number) => Promise<number | null>;
+}
+
+export interface ClaimRecord {
+  date: string;
+  pairName: string;
+  lpToken: string;
+  rewardAmount: string;
+  rewardToken: string;
+  priceUsd: number | null;
+  valueUsd: number | null;
+  priceSource: string;
+  txHash: string;
+}
+
+interface BuildClaimRecordsOptions {
+  from?: number;
+  to?: number;
+  pairNames: Record<string, string>;
+  rewardToken: TokenInfo;
+  priceSource: HistoricalPriceSource;
+}
+
+const LLAMA_CHAINS: Record<number, string> = {
+  1: 'ethereum',
+  137: 'polygon',
+  8453: 'base',
+};
+
+export const defiLlamaPriceSource = (chainId: number): HistoricalPriceSource | null => {
+  const chain = LLAMA_CHAINS[chainId];
+  if (!chain) return null;
+  return {
+    name: 'DefiLlama',
+    getPrice: async (tokenAddress, timestamp) => {
+      const key = `${chain}:${tokenAddress}`;
+      const response = await fetch(`https://coins.llama.fi/prices/historical/${timestamp}/${key}`);
+      const data = await response.json();
+      return data.coins?.[key]?.price ?? null;
+    },
+  };
+};
+
+// Current price for every row; the export labels it so it is never mistaken for the price at claim time
+export const spotPriceSource = (oracle: PriceOracle): HistoricalPriceSource => ({
+  name: `${oracle.name} spot (export time)`,
+  getPrice: async (tokenAddress) => (await oracle.getPrice(tokenAddress))?.priceUsd ?? null,
+});
+
+export const buildClaimRecords = async (activities: StakingActivity[], options: BuildClaimRecordsOptions): Promise<ClaimRecord[]> => {
+  const { from, to, pairNames, rewardToken, priceSource } = options;
+  const claims = activities
+    .filter((activity) => activity.type === 'claim')
+    .filter((activity) => (from === undefined || activity.timestamp >= from) && (to === undefined || activity.timestamp <= to))
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  // Claims in the same hour share one price lookup
+  const prices = new Map<number, Promise<number | null>>();
+  const priceAt = (timestamp: number) => {
+    const hour = Math.floor(timestamp / 3600) * 3600;
+    if (!prices.has(hour)) {
+      prices.set(hour, priceSource.getPrice(rewardToken.address, hour).catch(() => null));
+    }
+    return prices.get(hour)!;
+  };
+
+  return Promise.all(
+    claims.map(async (claim) => {
+      const rewardAmount = ethers.formatUnits(claim.amount, rewardToken.decimals);
+      const priceUsd = await priceAt(claim.timestamp);
+      return {
+        date: new Date(claim.timestamp * 1000).toISOString(),
+        pairName: pairNames[claim.lpToken] || '',
+        lpToken: claim.lpToken,
+        rewardAmount,
+        rewardToken: rewardToken.symbol,
+        priceUsd,
+        valueUsd: priceUsd === null ? null : Number(rewardAmount) * priceUsd,
+        priceSource: priceSource.name,
+        txHash: claim.transactionHash,
+      };
+    })
+  );
+};
+
+const CSV_COLUMNS: (keyof ClaimRecord)[] = ['date', 'pairName', 'lpToken', 'rewardAmount', 'rewardToken', 'priceUsd', 'valueUsd', 'priceSource', 'txHash'];
+
+// Spreadsheets run cells starting with these as formulas, and pair names are admin-set
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+const escapeCsv = (value: unknown) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const claimRecordsToCsv = (records: ClaimRecord[]) =>
+  [CSV_COLUMNS.join(','), ...records.map((record) => CSV_COLUMNS.map((column) => escapeCsv(record[column])).join(','))].join('\n');
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
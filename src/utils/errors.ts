@@ -0,0 +1,128 @@
+import { ethers } from 'ethers';
+import LPStaking_ABI from '@/assets/abi/LPStaking.json';
+import LIBERC20_ABI from '@/assets/abi/LIBERC20.json';
+import ERC20_ABI from '@/assets/abi/ERC20.json';
+import UNIV2_ABI from '@/assets/abi/UNI-V2.json';
+import { truncateAddress } from '@/utils';
+
+export type ContractErrorKind = 'user-rejected' | 'insufficient-funds' | 'contract' | 'network' | 'unknown';
+
+export interface DecodedError {
+  kind: ContractErrorKind;
+  message: string;
+  // Custom error or revert name and its decoded arguments, for contract errors
+  name?: string;
+  args?: Record<string, string>;
+}
+
+type ErrorLike = {
+  code?: string | number;
+  message?: string;
+  shortMessage?: string;
+  reason?: string | null;
+  data?: unknown;
+  error?: unknown;
+  info?: { error?: unknown };
+  revert?: { name: string; args: ethers.Result } | null;
+};
+
+// Every custom error the app can run into, so a revert is decodable whichever contract raised it
+const errorInterface = new ethers.Interface(
+  [LPStaking_ABI, LIBERC20_ABI, ERC20_ABI, UNIV2_ABI].flatMap((abi) => (abi as ethers.JsonFragment[]).filter((fragment) => fragment.type === 'error'))
+);
+
+const ROLE_NAMES: Record<string, string> = {
+  [ethers.ZeroHash]: 'default admin',
+  [ethers.id('ADMIN_ROLE')]: 'admin',
+};
+
+const RPC_USER_REJECTED = 4001;
+const NETWORK_CODES = ['NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR', 'BAD_DATA'];
+
+// The revert does not say which token it came from, so amounts stay in the token's smallest unit
+const formatAmount = (value: bigint) => `${value.toString()} base units`;
+
+const CUSTOM_ERROR_MESSAGES: Record<string, (args: ethers.Result) => string> = {
+  AccessControlUnauthorizedAccount: ([account, role]) => `${truncateAddress(account)} does not have the ${ROLE_NAMES[role] ?? role} role`,
+  AccessControlBadConfirmation: () => 'Roles can only be renounced by the account holding them',
+  ReentrancyGuardReentrantCall: () => 'The contract rejected a re-entrant call',
+  SafeERC20FailedOperation: ([token]) => `Token transfer failed for ${truncateAddress(token)}`,
+  ERC20InsufficientAllowance: ([, allowance, needed]) => `Allowance too low: ${formatAmount(allowance)} approved, ${formatAmount(needed)} needed`,
+  ERC20InsufficientBalance: ([, balance, needed]) => `Balance too low: ${formatAmount(balance)} available, ${formatAmount(needed)} needed`,
+  ERC20InvalidApprover: ([address]) => `Invalid approver ${truncateAddress(address)}`,
+  ERC20InvalidReceiver: ([address]) => `Invalid receiver ${truncateAddress(address)}`,
+  ERC20InvalidSender: ([address]) => `Invalid sender ${truncateAddress(address)}`,
+  ERC20InvalidSpender: ([address]) => `Invalid spender ${truncateAddress(address)}`,
+};
+
+// Wallets and RPCs nest the original error (and its revert data) at different depths
+const nestedErrors = (err: ErrorLike, depth = 0): ErrorLike[] => {
+  if (!err || typeof err !== 'object' || depth > 4) return [];
+  const children = [err.error, err.info?.error, typeof err.data === 'object' ? err.data : undefined].filter(Boolean) as ErrorLike[];
+  return [err, ...children.flatMap((child) => nestedErrors(child, depth + 1))];
+};
+
+const findRevertData = (errors: ErrorLike[]) => {
+  for (const err of errors) {
+    if (typeof err.data === 'string' && ethers.isHexString(err.data) && err.data.length >= 10) return err.data;
+  }
+  return null;
+};
+
+const describeArgs = (fragment: ethers.ErrorFragment, args: ethers.Result) =>
+  Object.fromEntries(fragment.inputs.map((input, i) => [input.name || `arg${i}`, String(args[i])]));
+
+const decodeRevert = (data: string): Pick<DecodedError, 'name' | 'args' | 'message'> | null => {
+  // Error(string) and Panic(uint256) are built into the ABI coder
+  const builtin = ethers.AbiCoder.getBuiltinCallException('call', { data }, data);
+  if (builtin.revert) {
+    return { name: builtin.revert.name, args: { reason: String(builtin.revert.args[0]) }, message: builtin.reason ?? builtin.shortMessage };
+  }
+  try {
+    const parsed = errorInterface.parseError(data);
+    if (!parsed) return null;
+    const describe = CUSTOM_ERROR_MESSAGES[parsed.name];
+    return {
+      name: parsed.name,
+      args: describeArgs(parsed.fragment, parsed.args),
+      message: describe ? describe(parsed.args) : parsed.name,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Turns anything thrown by ethers, the wallet or the RPC into a classified, readable error.
+ * `fallback` is the action that failed (e.g. 'Failed to stake') and prefixes contract reverts.
+ */
+export const decodeContractError = (err: unknown, fallback: string): DecodedError => {
+  const errors = nestedErrors(err as ErrorLike);
+  const root = (errors[0] ?? {}) as ErrorLike;
+
+  if (ethers.isError(err, 'ACTION_REJECTED') || errors.some((e) => e.code === RPC_USER_REJECTED)) {
+    return { kind: 'user-rejected', message: 'Transaction rejected in wallet' };
+  }
+
+  if (ethers.isError(err, 'INSUFFICIENT_FUNDS') || errors.some((e) => /insufficient funds/i.test(e.message ?? ''))) {
+    return { kind: 'insufficient-funds', message: 'Insufficient native balance to pay for gas' };
+  }
+
+  const revertData = findRevertData(errors);
+  const decoded = revertData ? decodeRevert(revertData) : null;
+  if (decoded) {
+    return { kind: 'contract', ...decoded, message: `${fallback}: ${decoded.message}` };
+  }
+  if (ethers.isError(err, 'CALL_EXCEPTION')) {
+    // For custom errors ethers sets `reason` to the raw signature, so only Error(string) reasons are worth showing
+    const describe = root.revert ? CUSTOM_ERROR_MESSAGES[root.revert.name] : undefined;
+    const reason = describe && root.revert ? describe(root.revert.args) : !root.revert || root.revert.name === 'Error' ? root.reason : root.revert.name;
+    return { kind: 'contract', name: root.revert?.name, message: reason ? `${fallback}: ${reason}` : `${fallback}: the transaction reverted` };
+  }
+
+  if (errors.some((e) => NETWORK_CODES.includes(String(e.code)) || /failed to fetch|network|timeout/i.test(e.message ?? ''))) {
+    return { kind: 'network', message: `${fallback}: network error, check your connection and try again` };
+  }
+
+  return { kind: 'unknown', message: root.reason || fallback };
+};
@@ -0,0 +1,108 @@
+import { ethers } from 'ethers';
+
+// Block the staking contract was deployed at; indexing starts here on a cold cache (0 means look it up on chain)
+export const DEPLOY_BLOCK = Number(import.meta.env.VITE_STAKING_DEPLOY_BLOCK || 0);
+// Public RPCs cap eth_getLogs ranges, so history is fetched in windows of this many blocks
+export const LOG_BLOCK_RANGE = Number(import.meta.env.VITE_LOG_BLOCK_RANGE || 10000);
+
+const MIN_BLOCK_RANGE = 100;
+
+export interface IndexedLog {
+  eventName: string;
+  args: ethers.Result;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+interface QueryLogsOptions {
+  fromBlock: number;
+  toBlock: number;
+  blockRange?: number;
+  // Called with each window's logs once it is fetched, so callers can persist progress as it is made
+  onPage?: (logs: IndexedLog[], indexedBlock: number) => Promise<void> | void;
+}
+
+const deployBlocks = new Map<string, Promise<number>>();
+
+// Binary search for the first block with code at the address; needs an RPC that serves historic state
+const findDeployBlock = async (provider: ethers.Provider, address: string) => {
+  let low = 0;
+  let high = await provider.getBlockNumber();
+  if ((await provider.getCode(address, high)) === '0x') return 0;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, mid)) === '0x') low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+/**
+ * First block worth scanning for a contract's events: DEPLOY_BLOCK when configured, otherwise the
+ * deployment block found on chain. Falls back to genesis when the RPC cannot answer historic getCode calls.
+ */
+export const getStartBlock = (provider: ethers.Provider, address: string): Promise<number> => {
+  if (DEPLOY_BLOCK > 0) return Promise.resolve(DEPLOY_BLOCK);
+  const key = address.toLowerCase();
+  let pending = deployBlocks.get(key);
+  if (!pending) {
+    pending = findDeployBlock(provider, address).catch((err) => {
+      console.warn('Could not find the deploy block, indexing from genesis:', err);
+      deployBlocks.delete(key);
+      return 0;
+    });
+    deployBlocks.set(key, pending);
+  }
+  return pending;
+};
+
+/**
+ * Fetches and decodes the given events of a contract between two blocks, walking the range in
+ * windows and halving the window whenever the RPC rejects it as too large. Logs come back in chain order.
+ */
+export const queryLogsPaginated = async (contract: ethers.BaseContract, eventNames: string[], options: QueryLogsOptions): Promise<IndexedLog[]> => {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error('Contract has no provider');
+
+  const address = await contract.getAddress();
+  const topics = eventNames.map((name) => {
+    const event = contract.interface.getEvent(name);
+    if (!event) throw new Error(`Unknown event ${name}`);
+    return event.topicHash;
+  });
+
+  const logs: IndexedLog[] = [];
+  let range = options.blockRange ?? LOG_BLOCK_RANGE;
+  let from = options.fromBlock;
+  while (from <= options.toBlock) {
+    const to = Math.min(from + range - 1, options.toBlock);
+    let rawLogs: ethers.Log[];
+    try {
+      rawLogs = await provider.getLogs({ address, topics: [topics], fromBlock: from, toBlock: to });
+    } catch (err) {
+      if (range <= MIN_BLOCK_RANGE) throw err;
+      range = Math.max(Math.floor(range / 2), MIN_BLOCK_RANGE);
+      continue;
+    }
+
+    const page: IndexedLog[] = [];
+    for (const log of rawLogs) {
+      const parsed = contract.interface.parseLog(log);
+      if (!parsed) continue;
+      page.push({
+        eventName: parsed.name,
+        args: parsed.args,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+      });
+    }
+    page.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    await options.onPage?.(page, to);
+    logs.push(...page);
+    from = to + 1;
+  }
+
+  return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+};
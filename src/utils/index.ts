@@ -2,15 +2,24 @@ export const truncateAddress = (address: string) => {
   return address.slice(0, 8) + '...' + address.slice(-8);
 };
 
-export const calcAPR = (hourlyRate: number, tvl: number, lpTokenPrice: number, rewardTokenPrice: number) => {
-  if (tvl === 0) return 0;
-  if (!lpTokenPrice || !rewardTokenPrice) return (hourlyRate * 24 * 365) / tvl || 0;
-  return (hourlyRate * rewardTokenPrice * 365) / (tvl * lpTokenPrice) || 0;
-};
+// Case-insensitive address comparison; false when the second address is missing
+export const sameAddress = (a: string, b?: string) => !!b && a.toLowerCase() === b.toLowerCase();
+
+const compactNumberFormat = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 });
+const compactUsdFormat = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', notation: 'compact', maximumFractionDigits: 2 });
+
+export const formatCompactNumber = (value: number) => compactNumberFormat.format(value);
 
-export const fetchTokenPrice = async (address: string) => {
-  if (!address) return 0;
-  const response = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${address}`);
-  const data = await response.json();
-  return data.pairs?.[0]?.priceUsd || 0;
-};
\ No newline at end of file
+export const formatCompactUsd = (value: number) => compactUsdFormat.format(value);
+
+// Coarse countdown text such as "2d 4h", "3h 12m" or "45s"
+export const formatDuration = (seconds: number) => {
+  const total = Math.max(Math.floor(seconds), 0);
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${total % 60}s`;
+  return `${total}s`;
+};
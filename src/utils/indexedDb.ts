@@ -0,0 +1,58 @@
+const DB_NAME = 'lp-staking';
+const DB_VERSION = 1;
+const STORE_NAME = 'cache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, build: (store: IDBObjectStore) => IDBRequest) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = build(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Cache misses and unavailable storage (private mode, old browsers) both read as null
+export const readCache = async <T>(key: string): Promise<T | null> => {
+  try {
+    return (await runRequest<T | undefined>('readonly', (store) => store.get(key))) ?? null;
+  } catch (err) {
+    return null;
+  }
+};
+
+export const writeCache = async <T>(key: string, value: T) => {
+  try {
+    await runRequest('readwrite', (store) => store.put(value, key));
+  } catch (err) {
+    console.error('Failed to write cache:', err);
+  }
+};
+
+export const deleteCache = async (key: string) => {
+  try {
+    await runRequest('readwrite', (store) => store.delete(key));
+  } catch (err) {
+    console.error('Failed to delete cache:', err);
+  }
+};
@@ -0,0 +1,25 @@
+export interface LpReserves {
+  reserve0: number;
+  reserve1: number;
+  totalSupply: number;
+}
+
+/**
+ * USD value of one Uniswap V2 LP token: (reserve0·price0 + reserve1·price1) / totalSupply.
+ * Amounts are in whole tokens. V2 pools hold equal value on both sides, so when only one side has a
+ * price the pool is valued at twice that side. Returns null when neither side is priced.
+ */
+export const lpTokenPriceUsd = ({ reserve0, reserve1, totalSupply }: LpReserves, price0: number | null, price1: number | null) => {
+  if (totalSupply <= 0) return null;
+  let poolValueUsd: number;
+  if (price0 !== null && price1 !== null) {
+    poolValueUsd = reserve0 * price0 + reserve1 * price1;
+  } else if (price0 !== null) {
+    poolValueUsd = 2 * reserve0 * price0;
+  } else if (price1 !== null) {
+    poolValueUsd = 2 * reserve1 * price1;
+  } else {
+    return null;
+  }
+  return poolValueUsd / totalSupply;
+};
@@ -0,0 +1,88 @@
+import { ethers } from 'ethers';
+import MULTICALL3_ABI from '@/assets/abi/Multicall3.json';
+import { MULTICALL3_ADDRESS } from '@/constants/networks';
+
+// Keeps each aggregate3 request well under typical RPC payload and gas limits
+const MAX_CALLS_PER_BATCH = 200;
+
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+const availability = new WeakMap<ethers.Provider, Promise<boolean>>();
+
+export interface ContractCall {
+  contract: ethers.BaseContract;
+  method: string;
+  args?: unknown[];
+}
+
+export type CallResult<T = unknown> = { success: true; value: T } | { success: false; value: null };
+
+const isMulticallAvailable = (provider: ethers.Provider) => {
+  let available = availability.get(provider);
+  if (!available) {
+    available = provider
+      .getCode(MULTICALL3_ADDRESS)
+      .then((code) => code !== '0x')
+      .catch(() => false);
+    availability.set(provider, available);
+  }
+  return available;
+};
+
+// Single-output functions are unwrapped so callers get the value itself rather than a one-element Result
+const decodeResult = (call: ContractCall, data: string): unknown => {
+  const result = call.contract.interface.decodeFunctionResult(call.method, data);
+  return result.length === 1 ? result[0] : result;
+};
+
+const encodeCall = async (call: ContractCall) => ({
+  target: await call.contract.getAddress(),
+  allowFailure: true,
+  callData: call.contract.interface.encodeFunctionData(call.method, call.args ?? []),
+});
+
+const executeSingle = async (provider: ethers.Provider, call: ContractCall): Promise<CallResult> => {
+  try {
+    const { target, callData } = await encodeCall(call);
+    const data = await provider.call({ to: target, data: callData });
+    return { success: true, value: decodeResult(call, data) };
+  } catch (err) {
+    return { success: false, value: null };
+  }
+};
+
+const executeBatch = async (provider: ethers.Provider, calls: ContractCall[]): Promise<CallResult[]> => {
+  const encoded = await Promise.all(calls.map(encodeCall));
+  const data = await provider.call({
+    to: MULTICALL3_ADDRESS,
+    data: multicallInterface.encodeFunctionData('aggregate3', [encoded]),
+  });
+  const [results] = multicallInterface.decodeFunctionResult('aggregate3', data);
+  return calls.map((call, i) => {
+    const { success, returnData } = results[i];
+    if (!success) return { success: false, value: null };
+    try {
+      return { success: true, value: decodeResult(call, returnData) };
+    } catch (err) {
+      return { success: false, value: null };
+    }
+  });
+};
+
+/**
+ * Runs read-only contract calls through Multicall3 when the chain has it,
+ * otherwise falls back to one eth_call per entry. Results keep the order of `calls`
+ * and a failing call never fails the others.
+ */
+export const executeCalls = async (provider: ethers.Provider, calls: ContractCall[]): Promise<CallResult[]> => {
+  if (calls.length === 0) return [];
+  if (!(await isMulticallAvailable(provider))) {
+    return Promise.all(calls.map((call) => executeSingle(provider, call)));
+  }
+
+  const batches: ContractCall[][] = [];
+  for (let i = 0; i < calls.length; i += MAX_CALLS_PER_BATCH) {
+    batches.push(calls.slice(i, i + MAX_CALLS_PER_BATCH));
+  }
+  const results = await Promise.all(batches.map((batch) => executeBatch(provider, batch)));
+  return results.flat();
+};
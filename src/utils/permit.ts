@@ -0,0 +1,58 @@
+import { ethers } from 'ethers';
+
+// Uniswap V2 pairs implement EIP-2612 with this domain version
+const PERMIT_VERSION = '1';
+// How long a signed permit stays valid
+const PERMIT_TTL_SECONDS = 20 * 60;
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export interface SignedPermit {
+  owner: string;
+  spender: string;
+  value: bigint;
+  deadline: bigint;
+  signature: ethers.Signature;
+}
+
+const permitDomain = async (token: ethers.Contract, chainId: bigint): Promise<ethers.TypedDataDomain> => ({
+  name: await token.name(),
+  version: PERMIT_VERSION,
+  chainId,
+  verifyingContract: await token.getAddress(),
+});
+
+/**
+ * Whether `token` accepts EIP-2612 permits: it must expose nonces() and a DOMAIN_SEPARATOR that
+ * matches the domain we would sign, otherwise the signature would be rejected on chain.
+ */
+export const supportsPermit = async (token: ethers.Contract, owner: string, chainId: bigint) => {
+  try {
+    const [domainSeparator, domain] = await Promise.all([token.DOMAIN_SEPARATOR(), permitDomain(token, chainId), token.nonces(owner)]);
+    return domainSeparator === ethers.TypedDataEncoder.hashDomain(domain);
+  } catch {
+    return false;
+  }
+};
+
+/** Asks the wallet to sign a permit letting `spender` pull `value` of `token` from the signer. */
+export const signPermit = async (signer: ethers.JsonRpcSigner, token: ethers.Contract, spender: string, value: bigint): Promise<SignedPermit> => {
+  const owner = await signer.getAddress();
+  const { chainId } = await signer.provider.getNetwork();
+  const [domain, nonce, block] = await Promise.all([permitDomain(token, chainId), token.nonces(owner), signer.provider.getBlock('latest')]);
+  const deadline = BigInt((block?.timestamp ?? Math.floor(Date.now() / 1000)) + PERMIT_TTL_SECONDS);
+  const signature = await signer.signTypedData(domain, PERMIT_TYPES, { owner, spender, value, nonce, deadline });
+  return { owner, spender, value, deadline, signature: ethers.Signature.from(signature) };
+};
+
+export const permitArgs = ({ owner, spender, value, deadline, signature }: SignedPermit) => [owner, spender, value, deadline, signature.v, signature.r, signature.s];
+
+export const encodePermit = (token: ethers.Contract, permit: SignedPermit) => token.interface.encodeFunctionData('permit', permitArgs(permit));
@@ -0,0 +1,142 @@
+import { ethers } from 'ethers';
+import UNIV2_ABI from '@/assets/abi/UNI-V2.json';
+import ERC20_ABI from '@/assets/abi/ERC20.json';
+import { executeCalls } from '@/utils/multicall';
+import { lpTokenPriceUsd } from '@/utils/lpValuation';
+
+export interface PriceQuote {
+  priceUsd: number;
+  source: string;
+}
+
+/** Anything that can quote a token's current USD price; null means it has no quote for that token. */
+export interface PriceOracle {
+  name: string;
+  getPrice: (address: string) => Promise<PriceQuote | null>;
+}
+
+interface DexScreenerPair {
+  chainId: string;
+  priceUsd?: string;
+  baseToken?: { address?: string };
+  liquidity?: { usd?: number };
+}
+
+const DEXSCREENER_CHAINS: Record<number, string> = {
+  1: 'ethereum',
+  137: 'polygon',
+  8453: 'base',
+};
+
+export const createDexScreenerOracle = (chainId: number): PriceOracle => {
+  const chain = DEXSCREENER_CHAINS[chainId];
+  return {
+    name: 'DexScreener',
+    getPrice: async (address) => {
+      if (!address) return null;
+      const response = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${address}`);
+      const data: { pairs?: DexScreenerPair[] } = await response.json();
+      // The endpoint lists every pool trading the token on any chain; use the deepest one quoting it as base token
+      const best = (data.pairs ?? [])
+        .filter((pair) => (!chain || pair.chainId === chain) && pair.baseToken?.address?.toLowerCase() === address.toLowerCase() && Number(pair.priceUsd) > 0)
+        .sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0))[0];
+      return best ? { priceUsd: Number(best.priceUsd), source: 'DexScreener' } : null;
+    },
+  };
+};
+
+/**
+ * Prices a Uniswap V2 LP token from its on-chain token0, token1, reserves and total supply, with the
+ * underlying tokens quoted by `underlying`. Returns null for addresses that are not V2 pairs.
+ */
+export const createUniswapV2Oracle = (provider: ethers.Provider, underlying: PriceOracle): PriceOracle => ({
+  name: 'Uniswap V2',
+  getPrice: async (address) => {
+    if (!address) return null;
+    const pair = new ethers.Contract(address, UNIV2_ABI, provider);
+    const [token0, token1, reserves, totalSupply] = await executeCalls(provider, [
+      { contract: pair, method: 'token0' },
+      { contract: pair, method: 'token1' },
+      { contract: pair, method: 'getReserves' },
+      { contract: pair, method: 'totalSupply' },
+    ]);
+    if (!token0.success || !token1.success || !reserves.success || !totalSupply.success) return null;
+    const supply = Number(ethers.formatEther(totalSupply.value as bigint));
+    if (supply === 0) return null;
+
+    const tokens = [token0.value as string, token1.value as string];
+    const [decimals0, decimals1] = await executeCalls(
+      provider,
+      tokens.map((token) => ({ contract: new ethers.Contract(token, ERC20_ABI, provider), method: 'decimals' }))
+    );
+    const [reserve0, reserve1] = reserves.value as ethers.Result;
+    const quotes = await Promise.all(tokens.map((token) => underlying.getPrice(token).catch(() => null)));
+    const priceUsd = lpTokenPriceUsd(
+      {
+        reserve0: Number(ethers.formatUnits(reserve0, decimals0.success ? Number(decimals0.value) : 18)),
+        reserve1: Number(ethers.formatUnits(reserve1, decimals1.success ? Number(decimals1.value) : 18)),
+        totalSupply: supply,
+      },
+      quotes[0]?.priceUsd ?? null,
+      quotes[1]?.priceUsd ?? null
+    );
+    return priceUsd === null ? null : { priceUsd, source: 'Uniswap V2' };
+  },
+});
+
+interface StaticPrices {
+  defaultPriceUsd?: number;
+  prices: Record<string, number>;
+}
+
+// Fixed prices for local Hardhat, where neither DexScreener nor real liquidity exists
+export const createStaticOracle = ({ defaultPriceUsd, prices }: StaticPrices): PriceOracle => {
+  const normalized = Object.fromEntries(Object.entries(prices).map(([address, price]) => [address.toLowerCase(), price]));
+  return {
+    name: 'Static',
+    getPrice: async (address) => {
+      const priceUsd = normalized[address.toLowerCase()] ?? defaultPriceUsd;
+      return address && priceUsd !== undefined ? { priceUsd, source: 'Static' } : null;
+    },
+  };
+};
+
+// First oracle with a quote wins; a failing oracle is treated as having no quote
+export const withFallback = (...oracles: PriceOracle[]): PriceOracle => ({
+  name: oracles.map((oracle) => oracle.name).join(' → '),
+  getPrice: async (address) => {
+    for (const oracle of oracles) {
+      const quote = await oracle.getPrice(address).catch(() => null);
+      if (quote) return quote;
+    }
+    return null;
+  },
+});
+
+/** Caches quotes (including misses) for `ttlMs` and shares one in-flight request per token. */
+export const withCache = (oracle: PriceOracle, ttlMs: number): PriceOracle => {
+  const cache = new Map<string, { quote: PriceQuote | null; expiresAt: number }>();
+  const inflight = new Map<string, Promise<PriceQuote | null>>();
+  return {
+    name: oracle.name,
+    getPrice: (address) => {
+      const key = address.toLowerCase();
+      const cached = cache.get(key);
+      if (cached && cached.expiresAt > Date.now()) return Promise.resolve(cached.quote);
+
+      let request = inflight.get(key);
+      if (!request) {
+        request = oracle
+          .getPrice(address)
+          .catch(() => null)
+          .then((quote) => {
+            cache.set(key, { quote, expiresAt: Date.now() + ttlMs });
+            return quote;
+          })
+          .finally(() => inflight.delete(key));
+        inflight.set(key, request);
+      }
+      return request;
+    },
+  };
+};
@@ -0,0 +1,71 @@
+import { ethers } from 'ethers';
+import { ACTION_TYPES } from '@/constants/actions';
+import { Action, SCPairData } from '@/types';
+
+const SHARE_SCALE = 10_000n;
+const HOURS_PER_DAY = 24;
+const DAYS_PER_MONTH = 30;
+
+export interface WeightDiffRow {
+  lpToken: string;
+  pairName: string;
+  currentWeight: bigint;
+  proposedWeight: bigint;
+  // Percentage of totalWeight, i.e. of the hourly emission
+  currentShare: number;
+  proposedShare: number;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+}
+
+export interface EmissionSnapshot {
+  hourly: number;
+  daily: number;
+  monthly: number;
+  // Days until the staking contract's reward balance runs out at this rate; null when nothing is emitted
+  runwayDays: number | null;
+}
+
+const share = (weight: bigint, total: bigint) => (total > 0n ? Number((weight * SHARE_SCALE) / total) / 100 : 0);
+
+/** Per-pair weights and emission shares before and after a weight, add-pair or remove-pair proposal. */
+export const diffPairWeights = (pairs: SCPairData[], action: Action, pairNames: Record<string, string> = {}): WeightDiffRow[] => {
+  const active = pairs.filter((pair) => pair.isActive || pair.weight > 0n);
+  const proposed = new Map(active.map((pair) => [pair.lpToken, pair.weight]));
+
+  if (action.actionType === ACTION_TYPES.UPDATE_PAIR_WEIGHTS) {
+    action.pairs.forEach((pair, i) => proposed.set(pair, action.weights[i] ?? 0n));
+  } else if (action.actionType === ACTION_TYPES.ADD_PAIR) {
+    proposed.set(action.pairToAdd, action.weightToAdd);
+  } else if (action.actionType === ACTION_TYPES.REMOVE_PAIR) {
+    proposed.set(action.pairToRemove, 0n);
+  }
+
+  const currentTotal = active.reduce((sum, pair) => sum + pair.weight, 0n);
+  const proposedTotal = Array.from(proposed.values()).reduce((sum, weight) => sum + weight, 0n);
+  const current = new Map(active.map((pair) => [pair.lpToken, pair]));
+
+  return Array.from(proposed.entries()).map(([lpToken, proposedWeight]) => {
+    const existing = current.get(lpToken);
+    const currentWeight = existing?.weight ?? 0n;
+    return {
+      lpToken,
+      pairName: existing?.pairName || pairNames[lpToken] || (lpToken === action.pairToAdd ? action.pairNameToAdd : ''),
+      currentWeight,
+      proposedWeight,
+      currentShare: share(currentWeight, currentTotal),
+      proposedShare: share(proposedWeight, proposedTotal),
+      change: !existing ? 'added' : proposedWeight === 0n && currentWeight > 0n ? 'removed' : proposedWeight !== currentWeight ? 'changed' : 'unchanged',
+    };
+  });
+};
+
+/** Emission and runway figures for an hourly rate and reward balance, both in reward token units. */
+export const emissionsFor = (hourlyRate: bigint, rewardBalance: bigint, decimals: number): EmissionSnapshot => {
+  const hourly = Number(ethers.formatUnits(hourlyRate, decimals));
+  return {
+    hourly,
+    daily: hourly * HOURS_PER_DAY,
+    monthly: hourly * HOURS_PER_DAY * DAYS_PER_MONTH,
+    runwayDays: hourlyRate > 0n ? Number(ethers.formatUnits(rewardBalance, decimals)) / (hourly * HOURS_PER_DAY) : null,
+  };
+};
@@ -0,0 +1,14 @@
+import { Action } from '@/types';
+import { sameAddress } from '@/utils';
+
+export type SignerVote = 'approved' | 'rejected' | 'pending' | 'none';
+
+/** Still collecting votes; `expiredIds` covers proposals the contract reports expired but nobody has marked yet. */
+export const isProposalOpen = (proposal: Action, expiredIds: Set<number>) => !proposal.executed && !proposal.rejected && !proposal.expired && !expiredIds.has(proposal.id);
+
+/** How `signer` voted on a proposal; closed proposals they never voted on are 'none' rather than pending. */
+export const signerVote = (proposal: Action, signer: string, isOpen: boolean): SignerVote => {
+  if (proposal.approvedBy.some((address) => sameAddress(address, signer))) return 'approved';
+  if (proposal.rejectedBy.some((address) => sameAddress(address, signer))) return 'rejected';
+  return isOpen ? 'pending' : 'none';
+};
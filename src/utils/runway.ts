@@ -0,0 +1,31 @@
+const SECONDS_PER_HOUR = 3600;
+const HOURS_PER_DAY = 24;
+
+// Below this the runway is flagged to admins
+export const LOW_RUNWAY_DAYS = 30;
+
+export interface RunwayProjection {
+  // Reward balance left after setting aside what stakers have already earned
+  available: bigint;
+  dailyEmission: bigint;
+  // Null when nothing is emitted, so the balance never runs out
+  runwayDays: number | null;
+  depletionDate: Date | null;
+}
+
+/**
+ * How long the reward balance lasts at `hourlyRate`: (balance - pending) ÷ (hourlyRate × 24).
+ * Pending rewards are owed to stakers already, so they are not counted as runway.
+ */
+export const projectRunway = (balance: bigint, pendingRewards: bigint, hourlyRate: bigint, now = Date.now()): RunwayProjection => {
+  const available = balance > pendingRewards ? balance - pendingRewards : 0n;
+  const dailyEmission = hourlyRate * BigInt(HOURS_PER_DAY);
+  if (hourlyRate === 0n) return { available, dailyEmission, runwayDays: null, depletionDate: null };
+  const runwaySeconds = (available * BigInt(SECONDS_PER_HOUR)) / hourlyRate;
+  return {
+    available,
+    dailyEmission,
+    runwayDays: Number(runwaySeconds) / (SECONDS_PER_HOUR * HOURS_PER_DAY),
+    depletionDate: new Date(now + Number(runwaySeconds) * 1000),
+  };
+};
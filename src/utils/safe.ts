@@ -0,0 +1,108 @@
+import { ethers } from 'ethers';
+
+// Safe's EIP-712 transaction type (v1.3 and later sign with a domain of just chainId and verifyingContract)
+const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+// Amounts are decimal strings so a queued transaction survives JSON round trips through localStorage and exports
+export interface SafeTransaction {
+  to: string;
+  value: string;
+  data: string;
+  // 0 = CALL; DELEGATECALL is never built here
+  operation: number;
+  safeTxGas: string;
+  baseGas: string;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  nonce: number;
+}
+
+/** A plain call from the Safe with no gas refund, which is all the staking contract needs. */
+export const buildSafeTransaction = (to: string, data: string, nonce: number): SafeTransaction => ({
+  to,
+  value: '0',
+  data,
+  operation: 0,
+  safeTxGas: '0',
+  baseGas: '0',
+  gasPrice: '0',
+  gasToken: ethers.ZeroAddress,
+  refundReceiver: ethers.ZeroAddress,
+  nonce,
+});
+
+const safeDomain = (safeAddress: string, chainId: number) => ({ chainId, verifyingContract: safeAddress });
+
+/** The hash owners sign and the Safe checks signatures against; matches the Safe's own getTransactionHash(). */
+export const getSafeTxHash = (safeAddress: string, chainId: number, tx: SafeTransaction) =>
+  ethers.TypedDataEncoder.hash(safeDomain(safeAddress, chainId), SAFE_TX_TYPES, tx);
+
+/** Asks an owner's wallet to sign the transaction as EIP-712 typed data. */
+export const signSafeTransaction = async (signer: ethers.JsonRpcSigner, safeAddress: string, chainId: number, tx: SafeTransaction) =>
+  signer.signTypedData(safeDomain(safeAddress, chainId), SAFE_TX_TYPES, tx);
+
+// An owner sending execTransaction itself counts as a signature of type v = 1 ("approved by msg.sender")
+const preValidatedSignature = (owner: string) => ethers.concat([ethers.zeroPadValue(owner, 32), ethers.ZeroHash, '0x01']);
+
+/**
+ * Packs owner signatures the way execTransaction expects them: sorted by owner address, ascending.
+ * `executor` adds a pre-validated signature for the owner sending the transaction if they have not signed.
+ */
+export const encodeSignatures = (signatures: Record<string, string>, executor?: string) => {
+  const entries = Object.entries(signatures);
+  if (executor && !entries.some(([owner]) => owner.toLowerCase() === executor.toLowerCase())) {
+    entries.push([executor, preValidatedSignature(executor)]);
+  }
+  entries.sort(([a], [b]) => (BigInt(a) < BigInt(b) ? -1 : 1));
+  return ethers.concat(entries.map(([, signature]) => signature));
+};
+
+export const safeExecArgs = (tx: SafeTransaction, signatures: string) => [
+  tx.to,
+  tx.value,
+  tx.data,
+  tx.operation,
+  tx.safeTxGas,
+  tx.baseGas,
+  tx.gasPrice,
+  tx.gasToken,
+  tx.refundReceiver,
+  signatures,
+];
+
+/** Smart-contract wallets (Safes included) have code at their address; EOAs do not. */
+export const isContractWallet = async (provider: ethers.Provider, address: string) => {
+  try {
+    return (await provider.getCode(address)) !== '0x';
+  } catch {
+    return false;
+  }
+};
+
+/** Safe{Wallet} Transaction Builder batch file, importable from the Safe web app. */
+export const toTransactionBuilderJson = (safeAddress: string, chainId: number, label: string, txs: SafeTransaction[]) =>
+  JSON.stringify(
+    {
+      version: '1.0',
+      chainId: chainId.toString(),
+      createdAt: Date.now(),
+      meta: { name: label, description: label, createdFromSafeAddress: safeAddress },
+      transactions: txs.map((tx) => ({ to: tx.to, value: tx.value, data: tx.data })),
+    },
+    null,
+    2
+  );
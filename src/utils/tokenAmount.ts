@@ -0,0 +1,56 @@
+import { ethers } from 'ethers';
+
+// An on-chain amount in the token's smallest unit, carried with the decimals needed to read or write it
+export interface TokenAmount {
+  value: bigint;
+  decimals: number;
+}
+
+const PERCENT_SCALE = 10_000n;
+const DECIMAL_INPUT = /^\d*\.?\d*$/;
+
+export const toTokenAmount = (value: bigint, decimals: number): TokenAmount => ({ value, decimals });
+
+export const zeroAmount = (decimals: number): TokenAmount => ({ value: 0n, decimals });
+
+export const isZeroAmount = (amount: TokenAmount | null) => !amount || amount.value === 0n;
+
+/** Parses user input such as "1.5" or ".25"; null when it is not a number or has more decimals than the token. */
+export const parseTokenAmount = (input: string, decimals: number): TokenAmount | null => {
+  const trimmed = input.trim();
+  if (!trimmed || trimmed === '.' || !DECIMAL_INPUT.test(trimmed)) return null;
+  const [whole, fraction = ''] = trimmed.split('.');
+  if (fraction.length > decimals) return null;
+  return { value: ethers.parseUnits(`${whole || '0'}${fraction ? `.${fraction}` : ''}`, decimals), decimals };
+};
+
+/** Exact decimal string, suitable for putting back into an input field. */
+export const toInputString = ({ value, decimals }: TokenAmount) => {
+  const formatted = ethers.formatUnits(value, decimals);
+  return formatted.endsWith('.0') ? formatted.slice(0, -2) : formatted;
+};
+
+/** Display string truncated (never rounded up) to a fixed number of fraction digits. */
+export const formatTokenAmount = ({ value, decimals }: TokenAmount, fractionDigits = 4) => {
+  const [whole, fraction = ''] = ethers.formatUnits(value, decimals).split('.');
+  return fractionDigits > 0 ? `${whole}.${fraction.padEnd(fractionDigits, '0').slice(0, fractionDigits)}` : whole;
+};
+
+/** `percent` (0-100, two decimals of precision) of an amount; 100 returns the amount exactly. */
+export const percentOf = (amount: TokenAmount, percent: number): TokenAmount => {
+  if (percent >= 100) return amount;
+  const scaled = BigInt(Math.max(Math.round(percent * 100), 0));
+  return { value: (amount.value * scaled) / PERCENT_SCALE, decimals: amount.decimals };
+};
+
+/** What percentage `part` is of `whole`, for driving sliders. */
+export const percentageOf = (part: TokenAmount, whole: TokenAmount) => {
+  if (whole.value === 0n) return 0;
+  return Number((part.value * PERCENT_SCALE) / whole.value) / 100;
+};
+
+/** Caps an amount at `max`, e.g. the wallet balance or the staked amount. */
+export const clampAmount = (amount: TokenAmount, max: TokenAmount): TokenAmount => (amount.value > max.value ? max : amount);
+
+// Allowances this large come from an unlimited (MaxUint256) approval that has barely been spent
+export const isUnlimitedAllowance = (value: bigint) => value >= ethers.MaxUint256 / 2n;
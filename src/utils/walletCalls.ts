@@ -0,0 +1,106 @@
+import { ethers } from 'ethers';
+
+// EIP-5792 wallet call batching (wallet_sendCalls / wallet_getCallsStatus)
+
+export interface WalletCall {
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+export interface CallsReceipt {
+  transactionHash: string;
+  success: boolean;
+}
+
+export interface CallsStatus {
+  pending: boolean;
+  success: boolean;
+  receipts: CallsReceipt[];
+  // Set when polling gave up before the wallet reported a final status, so the outcome is unknown
+  timedOut: boolean;
+}
+
+interface WaitForCallsOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const CALLS_TIMEOUT_MS = 5 * 60 * 1000;
+
+const toHexChainId = (chainId: number) => ethers.toQuantity(chainId);
+
+/**
+ * Whether the wallet advertises batched calls on the chain. Accepts both the current
+ * `atomic` capability and the older `atomicBatch` one; any RPC error means unsupported.
+ */
+export const supportsBatchedCalls = async (signer: ethers.JsonRpcSigner, chainId: number): Promise<boolean> => {
+  try {
+    const address = await signer.getAddress();
+    const capabilities = await signer.provider.send('wallet_getCapabilities', [address, [toHexChainId(chainId)]]);
+    const chainCapabilities = capabilities?.[toHexChainId(chainId)] ?? capabilities?.[chainId];
+    if (!chainCapabilities) return false;
+    const atomicStatus = chainCapabilities.atomic?.status;
+    return atomicStatus === 'supported' || atomicStatus === 'ready' || chainCapabilities.atomicBatch?.supported === true;
+  } catch {
+    return false;
+  }
+};
+
+/** Submits the calls as one wallet request and returns the batch id. */
+export const sendCalls = async (signer: ethers.JsonRpcSigner, chainId: number, calls: WalletCall[]): Promise<string> => {
+  const from = await signer.getAddress();
+  const result = await signer.provider.send('wallet_sendCalls', [
+    {
+      version: '2.0.0',
+      chainId: toHexChainId(chainId),
+      from,
+      atomicRequired: false,
+      calls: calls.map((call) => ({ to: call.to, data: call.data, value: call.value !== undefined ? ethers.toQuantity(call.value) : undefined })),
+    },
+  ]);
+  // v1 wallets return the id directly, v2 wallets wrap it in an object
+  return typeof result === 'string' ? result : result.id;
+};
+
+interface RawCallsStatus {
+  status?: number | string;
+  receipts?: { transactionHash: string; status?: string | number }[];
+}
+
+const parseCallsStatus = (raw: RawCallsStatus | null): CallsStatus => {
+  const receipts: CallsReceipt[] = (raw?.receipts ?? []).map((receipt) => ({
+    transactionHash: receipt.transactionHash,
+    success: receipt.status === '0x1' || receipt.status === 1 || receipt.status === 'success',
+  }));
+  // v2 uses numeric status codes (1xx pending, 2xx confirmed, 4xx/5xx failed), v1 uses strings
+  if (typeof raw?.status === 'number') {
+    return { pending: raw.status < 200, success: raw.status >= 200 && raw.status < 300, receipts, timedOut: false };
+  }
+  const pending = raw?.status === 'PENDING';
+  return { pending, success: !pending && receipts.every((receipt) => receipt.success), receipts, timedOut: false };
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+/**
+ * Polls wallet_getCallsStatus until the batch leaves the pending state. Gives up after `timeoutMs` or
+ * when `signal` aborts, returning a timed-out status since the batch may still land later.
+ */
+export const waitForCalls = async (signer: ethers.JsonRpcSigner, id: string, { timeoutMs = CALLS_TIMEOUT_MS, signal }: WaitForCallsOptions = {}): Promise<CallsStatus> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!signal?.aborted && Date.now() < deadline) {
+    const status = parseCallsStatus(await signer.provider.send('wallet_getCallsStatus', [id]));
+    if (!status.pending) return status;
+    await sleep(Math.min(POLL_INTERVAL_MS, Math.max(deadline - Date.now(), 0)), signal);
+  }
+  return { pending: true, success: false, receipts: [], timedOut: true };
+};
@@ -0,0 +1,49 @@
+// Shares are handled in basis points so two-decimal percentages round-trip exactly
+const BPS = 10_000n;
+
+export const FULL_ALLOCATION_BPS = BPS;
+
+const toBps = (percent: number) => BigInt(Math.max(Math.round(percent * 100), 0));
+
+/** Rescales shares proportionally so they add up to exactly 100%, giving any rounding remainder to the largest. */
+export const normalizeShares = (shares: number[]): number[] => {
+  if (shares.length === 0) return [];
+  let bps = shares.map(toBps);
+  // All zero: split evenly
+  if (bps.every((share) => share === 0n)) bps = bps.map(() => 1n);
+  const total = bps.reduce((sum, share) => sum + share, 0n);
+  const scaled = bps.map((share) => (share * BPS) / total);
+  const remainder = BPS - scaled.reduce((sum, share) => sum + share, 0n);
+  const largest = scaled.indexOf(scaled.reduce((max, share) => (share > max ? share : max), 0n));
+  scaled[largest] += remainder;
+  return scaled.map((share) => Number(share) / 100);
+};
+
+/** Each weight's share of the total as a percentage with two decimals, adding up to exactly 100%. */
+export const weightsToShares = (weights: bigint[]): number[] => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0n);
+  if (total === 0n) return weights.map(() => 0);
+  return normalizeShares(weights.map((weight) => Number((weight * BPS) / total) / 100));
+};
+
+/**
+ * Converts target shares (percent, summing to 100) into weights. Weights keep the current total so
+ * untouched pairs keep their exact weight; if that would push any pair past `maxWeight`, all weights
+ * are scaled down so the largest sits at `maxWeight`.
+ */
+export const sharesToWeights = (shares: number[], currentWeights: bigint[], maxWeight: bigint): bigint[] => {
+  const currentTotal = currentWeights.reduce((sum, weight) => sum + weight, 0n);
+  const total = currentTotal > 0n ? currentTotal : maxWeight;
+  const initialBps = weightsToShares(currentWeights).map(toBps);
+  const bps = shares.map(toBps);
+  const weights = bps.map((share) => (total * share) / BPS);
+
+  const largest = weights.reduce((max, weight) => (weight > max ? weight : max), 0n);
+  if (largest > maxWeight) {
+    return weights.map((weight) => (weight * maxWeight) / largest);
+  }
+  return weights.map((weight, i) => (bps[i] === initialBps[i] ? currentWeights[i] : weight));
+};
+
+/** Sum of the shares in basis points, for checking they add up to 100%. */
+export const totalShareBps = (shares: number[]) => shares.reduce((sum, share) => sum + toBps(share), 0n);